@@ -1,11 +1,9 @@
 import { COLORS } from "@/constants/colors";
-import { API_URL } from "@/constants/api";
-import { useAuthStore } from "@/stores/auth";
-import axios, { isAxiosError } from "axios";
 import { router } from "expo-router";
 import React, { useCallback, useEffect, useRef, useState } from "react";
 import {
   ActivityIndicator,
+  Alert,
   Animated,
   BackHandler,
   Dimensions,
@@ -26,35 +24,49 @@ import { useForm, Controller } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useMutation } from "@tanstack/react-query";
-import { useCartStore } from "@/stores/cart";
-import { usePaymentStore } from "@/stores/payment";
-
-interface ErrorResponse {
-  code: string;
-  status: number;
-  message: string;
-}
-
-const ERROR_CODES: Record<string, string> = {
-  BOOTH_NOT_FOUND: "등록된 부스가 아닙니다",
-  BOOTH_NOT_APPROVED: "승인된 부스가 아닙니다",
-  BOOTH_REJECTED: "거절된 부스입니다",
-  BOOTH_INACTIVE: "금지된 부스입니다",
-  BOOTH_PASSWORD_NOT_MATCH: "비밀번호가 맞지 않습니다",
-};
+import { loginKiosk } from "@/libs/client";
+import { toApiError } from "@/libs/errors";
+import { startKioskSession, switchBoothProfile } from "@/libs/kiosk";
+import { formatRemainingTime } from "@/stores/attempts";
+import { useAuthStore } from "@/stores/auth";
+import { useEnvironmentStore } from "@/stores/environment";
+import { useLoginAttemptStore } from "@/stores/login-attempts";
+import { STAFF_PIN_PATTERN, useStaffStore } from "@/stores/staff";
+import EnvironmentBadge from "@/components/environment-badge";
+import StaffPinPad from "@/components/staff-pin-pad";
 
 const loginSchema = z.object({
   username: z.string().min(1, "아이디를 입력해주세요"),
   password: z.string().min(1, "비밀번호를 입력해주세요"),
+  staffPin: z
+    .string()
+    .regex(STAFF_PIN_PATTERN, "4~8자리 숫자로 입력해주세요")
+    .or(z.literal("")),
 });
 
 type LoginFormData = z.infer<typeof loginSchema>;
 
+const RATE_LIMIT_FALLBACK_DURATION = 60 * 1000;
+const CREDENTIAL_ERROR_CODES = ["BOOTH_NOT_FOUND", "BOOTH_PASSWORD_NOT_MATCH"];
+
 export default function LoginScreen(): React.ReactElement {
-  const { signIn } = useAuthStore();
-  const { clearCart } = useCartStore();
-  const { resetPayment } = usePaymentStore();
+  const resetEnvironment = useEnvironmentStore(
+    (state) => state.resetEnvironment
+  );
+  const returnProfile = useAuthStore((state) =>
+    state.addingProfile
+      ? state.profiles.find(({ id }) => id === state.activeProfileId)
+      : undefined
+  );
+  const blockedUntil = useLoginAttemptStore((state) => state.blockedUntil);
+  const lockedOut = useLoginAttemptStore((state) => state.lockedOut);
+  const { recordFailure, recordSuccess, blockFor, getRemainingTime } =
+    useLoginAttemptStore.getState();
+  const [remainingTime, setRemainingTime] = useState<number>(() =>
+    getRemainingTime()
+  );
   const [focusedField, setFocusedField] = useState<string | null>(null);
+  const [pinPadVisible, setPinPadVisible] = useState<boolean>(false);
   const [dimensions, setDimensions] = useState<{
     width: number;
     height: number;
@@ -76,13 +88,14 @@ export default function LoginScreen(): React.ReactElement {
     setFocus,
   } = useForm<LoginFormData>({
     resolver: zodResolver(loginSchema),
-    defaultValues: { username: "", password: "" },
+    defaultValues: { username: "", password: "", staffPin: "" },
   });
 
   const formValues = watch();
 
   const usernameRef = useRef<TextInput>(null);
   const passwordRef = useRef<TextInput>(null);
+  const staffPinRef = useRef<TextInput>(null);
 
   useEffect(() => {
     isMounted.current = true;
@@ -100,6 +113,25 @@ export default function LoginScreen(): React.ReactElement {
   }, []);
 
   const isLandscape = dimensions.width > dimensions.height;
+  const blocked = remainingTime > 0;
+
+  useEffect(() => {
+    setRemainingTime(getRemainingTime());
+    if (!blockedUntil) return;
+
+    const interval = setInterval(() => {
+      const remaining = getRemainingTime();
+      if (isMounted.current) {
+        setRemainingTime(remaining);
+      }
+      if (remaining <= 0) {
+        clearInterval(interval);
+        clearErrors("root");
+      }
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [blockedUntil, getRemainingTime, clearErrors]);
 
   useEffect(() => {
     const animation = Animated.parallel([
@@ -144,51 +176,46 @@ export default function LoginScreen(): React.ReactElement {
   }, [errors.root?.message, errorFadeAnim]);
 
   const loginMutation = useMutation({
-    mutationFn: async (data: LoginFormData) => {
-      const response = await axios.post(`${API_URL}/kiosks/login`, {
+    mutationFn: (data: LoginFormData) =>
+      loginKiosk({
         username: data.username.trim(),
         password: data.password,
-      });
-      return response.data;
-    },
-    onSuccess: async (data: { accessToken?: string }) => {
+      }),
+    onSuccess: async (data, { username, staffPin }) => {
+      recordSuccess();
       if (!isMounted.current) return;
 
-      if (data?.accessToken) {
-        await signIn(data.accessToken);
-        clearCart();
-        resetPayment();
+      const target = await startKioskSession(data, {
+        profileName: username.trim(),
+        staffPin: staffPin || null,
+      });
 
-        if (isMounted.current) {
-          router.replace("/products");
-        }
-      } else {
-        if (isMounted.current) {
-          setError("root", { message: "로그인에 실패했습니다" });
-        }
+      if (isMounted.current) {
+        router.replace(target);
       }
     },
     onError: (error: unknown) => {
+      const apiError = toApiError(error, "로그인에 실패했습니다");
+
+      if (
+        apiError.status === 429 ||
+        apiError.code === "TOO_MANY_LOGIN_ATTEMPTS"
+      ) {
+        blockFor(apiError.retryAfter ?? RATE_LIMIT_FALLBACK_DURATION);
+      } else if (
+        apiError.code &&
+        CREDENTIAL_ERROR_CODES.includes(apiError.code)
+      ) {
+        recordFailure();
+      }
+
       if (!isMounted.current) return;
 
-      if (isAxiosError(error) && error.response?.data) {
-        try {
-          const errorData = error.response.data as ErrorResponse;
-
-          if (errorData.code === "BOOTH_PASSWORD_NOT_MATCH") {
-            setError("password", { message: ERROR_CODES[errorData.code] });
-            setFocus("password");
-          } else if (errorData.code && errorData.code in ERROR_CODES) {
-            setError("root", { message: ERROR_CODES[errorData.code] });
-          } else {
-            setError("root", { message: "로그인에 실패했습니다" });
-          }
-        } catch (e) {
-          console.error("Error parsing response:", e);
-          setError("root", { message: "로그인에 실패했습니다" });
-        }
+      if (apiError.code === "BOOTH_PASSWORD_NOT_MATCH") {
+        setError("password", { message: apiError.message });
+        setFocus("password");
       } else {
-        setError("root", { message: "연결에 실패했습니다" });
+        setError("root", { message: apiError.message });
       }
     },
   });
@@ -206,11 +233,12 @@ export default function LoginScreen(): React.ReactElement {
   const onSubmit = useCallback(
     (data: LoginFormData) => {
       if (!isMounted.current) return;
+      if (getRemainingTime() > 0) return;
 
       Keyboard.dismiss();
       loginMutation.mutate(data);
     },
-    [loginMutation]
+    [loginMutation, getRemainingTime]
   );
 
   const goToQrScanner = useCallback(() => {
@@ -234,6 +262,48 @@ export default function LoginScreen(): React.ReactElement {
     }
   }, []);
 
+  const handleReturnToProfile = useCallback(() => {
+    if (!returnProfile || loginMutation.isPending) return;
+
+    Keyboard.dismiss();
+    switchBoothProfile(returnProfile.id)
+      .then((target) => router.replace(target))
+      .catch((error) => {
+        setError("root", {
+          message: toApiError(error, "부스로 돌아가지 못했습니다").message,
+        });
+      });
+  }, [returnProfile, loginMutation.isPending, setError]);
+
+  // Anyone can reach the login screen, so a kiosk with a PIN asks for it
+  const handleResetEnvironment = useCallback(() => {
+    Alert.alert(
+      "기본 서버로 전환",
+      "등록 QR로 설정된 서버 정보를 지우고 기본 서버를 사용하시겠습니까?",
+      [
+        { text: "취소", style: "cancel" },
+        {
+          text: "전환",
+          style: "destructive",
+          onPress: () => {
+            if (useStaffStore.getState().pinHash) {
+              Keyboard.dismiss();
+              setPinPadVisible(true);
+            } else {
+              resetEnvironment();
+            }
+          },
+        },
+      ]
+    );
+  }, [resetEnvironment]);
+
+  const handlePinSuccess = useCallback(() => {
+    useStaffStore.getState().exit();
+    setPinPadVisible(false);
+    resetEnvironment();
+  }, [resetEnvironment]);
+
   const handlePressIn = useCallback(() => {
     Animated.spring(buttonScaleAnim, {
       toValue: 0.98,
@@ -267,6 +337,8 @@ export default function LoginScreen(): React.ReactElement {
             <Text style={styles.headerTitle}>
               <Text style={styles.brandText}>Flick</Text> Place
             </Text>
+            <View style={styles.headerSpacer} />
+            <EnvironmentBadge onLongPress={handleResetEnvironment} />
           </View>
 
           <View style={styles.mainContainer}>
@@ -282,20 +354,40 @@ export default function LoginScreen(): React.ReactElement {
             >
               <Text style={styles.title}>키오스크 로그인</Text>
 
-              {errors.root?.message && (
-                <Animated.View
-                  style={[styles.errorBanner, { opacity: errorFadeAnim }]}
-                >
+              {blocked && lockedOut ? (
+                <View style={styles.lockoutBanner}>
                   <Ionicons
-                    name="alert-circle"
+                    name="lock-closed"
                     size={18}
-                    color={COLORS.danger500}
+                    color={COLORS.warning700}
                     style={styles.errorIcon}
                   />
-                  <Text style={styles.errorBannerText}>
-                    {errors.root.message}
-                  </Text>
-                </Animated.View>
+                  <View style={styles.lockoutTextContainer}>
+                    <Text style={styles.lockoutTitle}>
+                      로그인 시도가 너무 많습니다
+                    </Text>
+                    <Text style={styles.lockoutText}>
+                      {formatRemainingTime(remainingTime)} 후 다시 시도할 수
+                      있습니다
+                    </Text>
+                  </View>
+                </View>
+              ) : (
+                errors.root?.message && (
+                  <Animated.View
+                    style={[styles.errorBanner, { opacity: errorFadeAnim }]}
+                  >
+                    <Ionicons
+                      name="alert-circle"
+                      size={18}
+                      color={COLORS.danger500}
+                      style={styles.errorIcon}
+                    />
+                    <Text style={styles.errorBannerText}>
+                      {errors.root.message}
+                    </Text>
+                  </Animated.View>
+                )
               )}
 
               <View style={styles.inputsContainer}>
@@ -390,10 +482,66 @@ export default function LoginScreen(): React.ReactElement {
                           handleFieldBlur();
                         }}
                         onFocus={() => handleFieldFocus("password")}
+                        onSubmitEditing={() =>
+                          isMounted.current && setFocus("staffPin")
+                        }
+                        returnKeyType="next"
+                        secureTextEntry
+                        autoCapitalize="none"
+                        blurOnSubmit={false}
+                      />
+                    </View>
+                  )}
+                />
+
+                <Controller
+                  control={control}
+                  name="staffPin"
+                  render={({
+                    field: { onChange, onBlur, value, ref },
+                    fieldState: { error },
+                  }) => (
+                    <View style={styles.inputGroup}>
+                      <View style={styles.inputLabelRow}>
+                        <Text style={styles.inputLabel}>
+                          관리자 PIN{" "}
+                          <Text style={styles.optionalLabel}>(선택)</Text>
+                        </Text>
+                        {error?.message && (
+                          <Animated.Text
+                            style={[
+                              styles.errorText,
+                              { opacity: errorFadeAnim },
+                            ]}
+                          >
+                            {error.message}
+                          </Animated.Text>
+                        )}
+                      </View>
+                      <TextInput
+                        ref={(instance) => {
+                          ref(instance);
+                          staffPinRef.current = instance;
+                        }}
+                        style={[
+                          styles.input,
+                          focusedField === "staffPin" && styles.inputFocused,
+                          error && styles.inputError,
+                        ]}
+                        placeholder="관리자 메뉴에 사용할 PIN"
+                        placeholderTextColor={COLORS.gray400}
+                        value={value}
+                        onChangeText={onChange}
+                        onBlur={() => {
+                          onBlur();
+                          handleFieldBlur();
+                        }}
+                        onFocus={() => handleFieldFocus("staffPin")}
                         onSubmitEditing={handleSubmit(onSubmit)}
                         returnKeyType="done"
+                        keyboardType="number-pad"
+                        maxLength={8}
                         secureTextEntry
-                        autoCapitalize="none"
                       />
                     </View>
                   )}
@@ -411,7 +559,8 @@ export default function LoginScreen(): React.ReactElement {
                     styles.loginButton,
                     (!formValues.username ||
                       !formValues.password ||
-                      loginMutation.isPending) &&
+                      loginMutation.isPending ||
+                      blocked) &&
                       styles.buttonDisabled,
                   ]}
                   onPress={handleSubmit(onSubmit)}
@@ -420,12 +569,17 @@ export default function LoginScreen(): React.ReactElement {
                   disabled={
                     !formValues.username ||
                     !formValues.password ||
-                    loginMutation.isPending
+                    loginMutation.isPending ||
+                    blocked
                   }
                   activeOpacity={0.9}
                 >
                   {loginMutation.isPending ? (
                     <ActivityIndicator color="#FFFFFF" size="small" />
+                  ) : blocked ? (
+                    <Text style={styles.buttonText}>
+                      {Math.ceil(remainingTime / 1000)}초 후 다시 시도
+                    </Text>
                   ) : (
                     <Text style={styles.buttonText}>로그인</Text>
                   )}
@@ -461,10 +615,34 @@ export default function LoginScreen(): React.ReactElement {
                   <Text style={styles.qrButtonText}>QR 코드로 등록하기</Text>
                 </TouchableOpacity>
               </Animated.View>
+
+              {returnProfile && (
+                <TouchableOpacity
+                  style={styles.returnButton}
+                  onPress={handleReturnToProfile}
+                  disabled={loginMutation.isPending}
+                  activeOpacity={0.7}
+                >
+                  <Ionicons
+                    name="arrow-back"
+                    size={16}
+                    color={COLORS.gray600}
+                  />
+                  <Text style={styles.returnButtonText}>
+                    {returnProfile.name}(으)로 돌아가기
+                  </Text>
+                </TouchableOpacity>
+              )}
             </Animated.View>
           </View>
         </SafeAreaView>
       </TouchableWithoutFeedback>
+
+      <StaffPinPad
+        visible={pinPadVisible}
+        onClose={() => setPinPadVisible(false)}
+        onSuccess={handlePinSuccess}
+      />
     </KeyboardAvoidingView>
   );
 }
@@ -499,6 +677,9 @@ const styles = StyleSheet.create({
   brandText: {
     color: COLORS.primary500,
   },
+  headerSpacer: {
+    flex: 1,
+  },
   mainContainer: {
     flex: 1,
     alignItems: "center",
@@ -537,6 +718,31 @@ const styles = StyleSheet.create({
     fontFamily: "Pretendard-Medium",
     color: COLORS.danger600,
   },
+  lockoutBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: COLORS.warning50,
+    paddingVertical: 14,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    marginBottom: 24,
+    borderWidth: 1,
+    borderColor: COLORS.warning200,
+  },
+  lockoutTextContainer: {
+    flex: 1,
+  },
+  lockoutTitle: {
+    fontSize: 15,
+    fontFamily: "Pretendard-SemiBold",
+    color: COLORS.warning800,
+  },
+  lockoutText: {
+    marginTop: 2,
+    fontSize: 14,
+    fontFamily: "Pretendard-Medium",
+    color: COLORS.warning700,
+  },
   inputsContainer: {
     marginBottom: 24,
   },
@@ -565,6 +771,10 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: COLORS.gray200,
   },
+  optionalLabel: {
+    fontFamily: "Pretendard-Regular",
+    color: COLORS.gray400,
+  },
   inputFocused: {
     borderColor: COLORS.primary500,
     backgroundColor: COLORS.white,
@@ -627,4 +837,17 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontFamily: "Pretendard-SemiBold",
   },
+  returnButton: {
+    flexDirection: "row",
+    justifyContent: "center",
+    alignItems: "center",
+    gap: 6,
+    marginTop: 20,
+    paddingVertical: 8,
+  },
+  returnButtonText: {
+    color: COLORS.gray600,
+    fontSize: 15,
+    fontFamily: "Pretendard-Medium",
+  },
 });
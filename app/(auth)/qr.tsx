@@ -1,14 +1,19 @@
 import { COLORS } from "@/constants/colors";
-import { API_URL } from "@/constants/api";
-import { useAuthStore } from "@/stores/auth";
-import axios from "axios";
+import { registerKiosk } from "@/libs/client";
+import { toApiError } from "@/libs/errors";
+import { startKioskSession } from "@/libs/kiosk";
+import { logger } from "@/libs/logger";
+import {
+  RegistrationPayload,
+  parseRegistrationPayload,
+} from "@/libs/registration";
 import {
   BarcodeScanningResult,
   CameraView,
   useCameraPermissions,
 } from "expo-camera";
 import { router } from "expo-router";
-import React, { useCallback, useEffect, useRef } from "react";
+import React, { useCallback, useEffect, useRef, useState } from "react";
 import {
   ActivityIndicator,
   BackHandler,
@@ -22,42 +27,32 @@ import { SafeAreaView } from "react-native-safe-area-context";
 import { Ionicons } from "@expo/vector-icons";
 import { useMutation } from "@tanstack/react-query";
 
-interface QRRegistrationResponse {
-  accessToken: string;
-}
-
 export default function QrScannerScreen(): React.ReactElement {
-  const { signIn } = useAuthStore();
   const [permission, requestPermission] = useCameraPermissions();
+  const [scanError, setScanError] = useState<string | null>(null);
 
   const isMounted = useRef<boolean>(true);
   const canScan = useRef<boolean>(true);
   const resetTimerRef = useRef<number | null>(null);
 
   const registerMutation = useMutation({
-    mutationFn: async (token: string) => {
-      const response = await axios.post<QRRegistrationResponse>(
-        `${API_URL}/kiosks/register`,
-        { registrationToken: token },
-        { timeout: 10000 }
-      );
-      return response.data;
-    },
-    onSuccess: async (data) => {
+    mutationFn: ({ token, environment }: RegistrationPayload) =>
+      registerKiosk(token, environment?.apiUrl ?? undefined),
+    onSuccess: async (data, { environment, staffPinHash }) => {
       if (!isMounted.current) return;
 
-      if (data?.accessToken) {
-        await signIn(data.accessToken);
-        if (isMounted.current) {
-          router.replace("/products");
-        }
-      } else {
-        resetScanState();
+      const target = await startKioskSession(data, {
+        environment,
+        staffPinHash,
+      });
+      if (isMounted.current) {
+        router.replace(target);
       }
     },
     onError: (error) => {
-      console.error("Registration error:", error);
+      logger.error("auth", "Kiosk registration failed", error);
       if (isMounted.current) {
+        setScanError(toApiError(error, "키오스크 등록에 실패했습니다").message);
         resetScanState();
       }
     },
@@ -114,12 +109,15 @@ export default function QrScannerScreen(): React.ReactElement {
 
       canScan.current = false;
 
-      if (!data?.trim()) {
+      const payload = data ? parseRegistrationPayload(data) : null;
+      if (!payload) {
+        setScanError("유효하지 않은 등록 QR 코드입니다");
         resetScanState();
         return;
       }
 
-      registerMutation.mutate(data.trim());
+      setScanError(null);
+      registerMutation.mutate(payload);
     },
     [registerMutation, resetScanState]
   );
@@ -195,6 +193,7 @@ export default function QrScannerScreen(): React.ReactElement {
             <Text style={styles.scanText}>
               QR 코드를 프레임 안에 위치시켜주세요
             </Text>
+            {scanError && <Text style={styles.scanErrorText}>{scanError}</Text>}
 
             {registerMutation.isPending && (
               <View style={styles.indicator}>
@@ -379,6 +378,13 @@ const styles = StyleSheet.create({
     marginTop: 24,
     textAlign: "center",
   },
+  scanErrorText: {
+    color: COLORS.danger300,
+    fontSize: 16,
+    fontFamily: "Pretendard-Medium",
+    marginTop: 12,
+    textAlign: "center",
+  },
   indicator: {
     backgroundColor: "rgba(0, 0, 0, 0.7)",
     padding: 20,
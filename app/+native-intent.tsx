@@ -0,0 +1,16 @@
+import {
+  isRegistrationLink,
+  markRegistrationLinkPending,
+} from "@/libs/registration";
+
+interface SystemPathOptions {
+  path: string;
+  initial: boolean;
+}
+
+export function redirectSystemPath({ path, initial }: SystemPathOptions) {
+  if (initial && isRegistrationLink(path)) {
+    markRegistrationLinkPending();
+  }
+  return path;
+}
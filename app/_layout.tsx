@@ -1,19 +1,36 @@
 import { useAuthStore } from "@/stores/auth";
 import { Redirect, Stack } from "expo-router";
 import { useFonts } from "expo-font";
-import React, { useEffect, useRef } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { StyleSheet, View } from "react-native";
 import Toast from "react-native-toast-message";
 import { COLORS } from "@/constants/colors";
 import * as SplashScreen from "expo-splash-screen";
 import * as KeepAwake from "expo-keep-awake";
 import Providers from "@/components/providers";
+import ActivityLogger from "@/components/activity-logger";
+import KioskConfigSync from "@/components/kiosk-config-sync";
+import KioskControl from "@/components/kiosk-control";
+import KioskHeartbeat from "@/components/kiosk-heartbeat";
+import UpdateManager from "@/components/update-manager";
+import { recordInteraction } from "@/libs/activity";
+import { initLogger, logger } from "@/libs/logger";
+import { isRegistrationLinkPending } from "@/libs/registration";
+import { subscribeSession } from "@/libs/session";
+import { useEnvironmentStore } from "@/stores/environment";
+import { useLockStore } from "@/stores/lock";
+import { usePaymentStore } from "@/stores/payment";
 
 SplashScreen.preventAutoHideAsync().catch(() => {});
 
 export default function RootLayout(): React.ReactElement | null {
-  const { authenticated, initialized } = useAuthStore();
+  const authenticated = useAuthStore((state) => state.authenticated);
+  const initialized = useAuthStore((state) => state.initialized);
+  const environmentHydrated = useEnvironmentStore((state) => state.hydrated);
+  const locked = useLockStore((state) => state.locked);
+  const lockHydrated = useLockStore((state) => state.hydrated);
   const isMounted = useRef<boolean>(true);
+  const [sessionExpired, setSessionExpired] = useState<boolean>(false);
 
   const [fontsLoaded] = useFonts({
     "Pretendard-Thin": require("../assets/fonts/Pretendard-Thin.otf"),
@@ -30,6 +47,7 @@ export default function RootLayout(): React.ReactElement | null {
   useEffect(() => {
     isMounted.current = true;
     KeepAwake.activateKeepAwakeAsync();
+    initLogger();
 
     return () => {
       isMounted.current = false;
@@ -38,25 +56,58 @@ export default function RootLayout(): React.ReactElement | null {
   }, []);
 
   useEffect(() => {
-    if (fontsLoaded && initialized && isMounted.current) {
+    return subscribeSession((event) => {
+      if (isMounted.current) {
+        setSessionExpired(event.type === "expired");
+      }
+    });
+  }, []);
+
+  useEffect(() => {
+    if (authenticated) {
+      setSessionExpired(false);
+    }
+  }, [authenticated]);
+
+  useEffect(() => {
+    if (
+      fontsLoaded &&
+      initialized &&
+      environmentHydrated &&
+      lockHydrated &&
+      isMounted.current
+    ) {
       SplashScreen.hideAsync().catch((error) => {
-        console.error("Failed to hide splash screen:", error);
+        logger.warn("app", "Failed to hide splash screen", error);
       });
     }
-  }, [fontsLoaded, initialized]);
+  }, [fontsLoaded, initialized, environmentHydrated, lockHydrated]);
 
-  if (!fontsLoaded || !initialized) {
+  if (!fontsLoaded || !initialized || !environmentHydrated || !lockHydrated) {
     return null;
   }
 
   return (
     <Providers>
-      <View style={styles.container}>
-        {authenticated ? (
-          <Redirect href="/products" />
+      <View style={styles.container} onTouchStart={recordInteraction}>
+        {isRegistrationLinkPending() ? null : authenticated && locked ? (
+          <Redirect href="/locked" />
+        ) : authenticated ? (
+          <Redirect
+            href={
+              usePaymentStore.getState().isActive ? "/payment" : "/products"
+            }
+          />
+        ) : sessionExpired ? (
+          <Redirect href="/session-expired" />
         ) : (
           <Redirect href="/(auth)" />
         )}
+        <ActivityLogger />
+        <UpdateManager />
+        {authenticated && <KioskHeartbeat />}
+        {authenticated && <KioskControl />}
+        {authenticated && <KioskConfigSync />}
         <Stack screenOptions={{ headerShown: false }}>
           <Stack.Screen name="(auth)" options={{ animation: "fade" }} />
           <Stack.Screen name="products" options={{ animation: "fade" }} />
@@ -65,6 +116,16 @@ export default function RootLayout(): React.ReactElement | null {
             name="payment-complete"
             options={{ gestureEnabled: false }}
           />
+          <Stack.Screen name="register" options={{ gestureEnabled: false }} />
+          <Stack.Screen name="staff" options={{ gestureEnabled: false }} />
+          <Stack.Screen
+            name="locked"
+            options={{ animation: "fade", gestureEnabled: false }}
+          />
+          <Stack.Screen
+            name="session-expired"
+            options={{ animation: "fade", gestureEnabled: false }}
+          />
           <Stack.Screen name="+not-found" options={{ title: "Not Found" }} />
         </Stack>
         <Toast />
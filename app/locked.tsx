@@ -0,0 +1,69 @@
+import { COLORS } from "@/constants/colors";
+import { useLockStore } from "@/stores/lock";
+import { Ionicons } from "@expo/vector-icons";
+import React, { useEffect } from "react";
+import { BackHandler, Image, StyleSheet, Text, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+export default function LockedScreen(): React.ReactElement {
+  const reason = useLockStore((state) => state.reason);
+
+  useEffect(() => {
+    const backHandler = BackHandler.addEventListener(
+      "hardwareBackPress",
+      () => true
+    );
+
+    return () => backHandler.remove();
+  }, []);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.content}>
+        <Image
+          source={require("@/assets/images/logo.png")}
+          style={styles.logo}
+          resizeMode="contain"
+        />
+        <Ionicons name="pause-circle" size={80} color={COLORS.gray400} />
+        <Text style={styles.title}>잠시 운영을 중단합니다</Text>
+        <Text style={styles.message}>
+          {reason || "곧 다시 주문을 받을 예정입니다. 잠시만 기다려주세요."}
+        </Text>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.white,
+  },
+  content: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 24,
+  },
+  logo: {
+    width: 64,
+    height: 64,
+    marginBottom: 32,
+  },
+  title: {
+    fontSize: 28,
+    fontFamily: "Pretendard-Bold",
+    marginTop: 20,
+    color: COLORS.gray900,
+  },
+  message: {
+    fontSize: 18,
+    fontFamily: "Pretendard-Medium",
+    textAlign: "center",
+    marginTop: 12,
+    maxWidth: 480,
+    lineHeight: 26,
+    color: COLORS.gray600,
+  },
+});
@@ -1,4 +1,4 @@
-import { router } from "expo-router";
+import { router, useLocalSearchParams } from "expo-router";
 import React, { useCallback, useEffect, useRef } from "react";
 import {
   Image,
@@ -10,38 +10,99 @@ import {
 } from "react-native";
 import { COLORS } from "@/constants/colors";
 import { useCartStore } from "@/stores/cart";
+import { useConfigStore } from "@/stores/config";
+import { useOrderHistoryStore } from "@/stores/order-history";
 import { usePaymentStore } from "@/stores/payment";
+import { useShiftStore } from "@/stores/shift";
 
 export default function PaymentComplete(): React.ReactElement {
+  const params = useLocalSearchParams<{ orderId?: string }>();
   const { getTotalAmount, clearCart } = useCartStore();
-  const { orderId, resetPayment } = usePaymentStore();
+  const { orderId: paymentOrderId, resetPayment } = usePaymentStore();
+  const reprintOrder = useOrderHistoryStore((state) =>
+    params.orderId ? state.getOrder(Number(params.orderId)) : undefined
+  );
+  const reprint = !!params.orderId;
+  const orderId = reprint ? (reprintOrder?.id ?? null) : paymentOrderId;
+  const totalAmount = reprint
+    ? (reprintOrder?.totalAmount ?? 0)
+    : getTotalAmount();
+  const completedAt = reprintOrder
+    ? new Date(reprintOrder.paidAt ?? reprintOrder.createdAt)
+    : new Date();
 
+  const redirectDelay = useConfigStore(
+    (state) => state.config.completeRedirectDelay
+  );
   const autoRedirectTimerRef = useRef<number | null>(null);
   const isMounted = useRef<boolean>(true);
 
   const handleGoToMenu = useCallback(() => {
     if (!isMounted.current) return;
 
+    if (reprint) {
+      router.back();
+      return;
+    }
+
     resetPayment();
     clearCart();
     router.replace("/products");
-  }, [clearCart, resetPayment]);
+  }, [reprint, clearCart, resetPayment]);
 
   useEffect(() => {
     isMounted.current = true;
 
     if (!orderId) {
       if (isMounted.current) {
-        router.replace("/products");
+        if (reprint) {
+          router.back();
+        } else {
+          router.replace("/products");
+        }
       }
       return;
     }
 
+    if (!reprint) {
+      const cart = useCartStore.getState();
+      const now = new Date().toISOString();
+      const totalAmount = cart.getTotalAmount();
+      const paymentMethod = usePaymentStore.getState().requestMethod;
+      const orderItems = cart.items.map((item) => ({
+        productId: item.id,
+        productName: item.name,
+        price: item.price,
+        quantity: item.quantity,
+        options: item.options.map(({ optionId, name, priceDelta }) => ({
+          optionId,
+          name,
+          priceDelta,
+        })),
+      }));
+
+      useOrderHistoryStore.getState().recordOrder({
+        id: orderId,
+        status: "PAID",
+        totalAmount,
+        items: orderItems,
+        paymentMethod,
+        createdAt: now,
+        paidAt: now,
+      });
+      useShiftStore.getState().recordCompletion({
+        orderId,
+        totalAmount,
+        paymentMethod,
+        items: orderItems,
+      });
+    }
+
     autoRedirectTimerRef.current = setTimeout(() => {
       if (isMounted.current) {
         handleGoToMenu();
       }
-    }, 10000);
+    }, useConfigStore.getState().config.completeRedirectDelay);
 
     return () => {
       isMounted.current = false;
@@ -50,7 +111,7 @@ export default function PaymentComplete(): React.ReactElement {
         autoRedirectTimerRef.current = null;
       }
     };
-  }, [handleGoToMenu, orderId]);
+  }, [handleGoToMenu, orderId, reprint]);
 
   return (
     <SafeAreaView style={styles.container}>
@@ -73,17 +134,22 @@ export default function PaymentComplete(): React.ReactElement {
         </Text>
 
         <View style={styles.infoContainer}>
+          <View style={styles.infoItem}>
+            <Text style={styles.infoLabel}>주문 번호</Text>
+            <Text style={styles.infoValue}>#{orderId}</Text>
+          </View>
+
           <View style={styles.infoItem}>
             <Text style={styles.infoLabel}>결제 금액</Text>
             <Text style={styles.infoValue}>
-              {getTotalAmount().toLocaleString()}원
+              {totalAmount.toLocaleString()}원
             </Text>
           </View>
 
           <View style={styles.infoItem}>
             <Text style={styles.infoLabel}>결제 시간</Text>
             <Text style={styles.infoValue}>
-              {`${new Date().toLocaleTimeString("ko-KR", {
+              {`${completedAt.toLocaleTimeString("ko-KR", {
                 hour: "2-digit",
                 minute: "2-digit",
               })}`}
@@ -92,7 +158,7 @@ export default function PaymentComplete(): React.ReactElement {
         </View>
 
         <Text style={styles.redirectMessage}>
-          10초 후 자동으로 화면이 전환됩니다
+          {Math.round(redirectDelay / 1000)}초 후 자동으로 화면이 전환됩니다
         </Text>
 
         <TouchableOpacity
@@ -100,7 +166,9 @@ export default function PaymentComplete(): React.ReactElement {
           onPress={handleGoToMenu}
           activeOpacity={0.7}
         >
-          <Text style={styles.returnButtonText}>메뉴로 돌아가기</Text>
+          <Text style={styles.returnButtonText}>
+            {reprint ? "돌아가기" : "메뉴로 돌아가기"}
+          </Text>
         </TouchableOpacity>
       </View>
     </SafeAreaView>
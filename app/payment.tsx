@@ -1,5 +1,4 @@
 import { Ionicons } from "@expo/vector-icons";
-import { isAxiosError } from "axios";
 import { router } from "expo-router";
 import React, {
   useCallback,
@@ -20,22 +19,34 @@ import {
   View,
 } from "react-native";
 import QRCode from "react-native-qrcode-svg";
-import { API_URL } from "@/constants/api";
 import { COLORS } from "@/constants/colors";
-import api from "@/libs/api";
-import { useCartStore } from "@/stores/cart";
+import {
+  cancelOrder,
+  requestQrPayment,
+  requestStudentIdPayment,
+} from "@/libs/client";
+import { formatBundleContents } from "@/libs/catalog";
+import { toApiError } from "@/libs/errors";
+import { logger } from "@/libs/logger";
+import { CartItemComponent, CartItemOption, useCartStore } from "@/stores/cart";
+import { useConfigStore } from "@/stores/config";
+import { WebSocketStatus, useConnectionStore } from "@/stores/connection";
+import { getWsUrl } from "@/stores/environment";
 import { usePaymentStore } from "@/stores/payment";
+import { useShiftStore } from "@/stores/shift";
 import { useMutation } from "@tanstack/react-query";
 
 interface CartItemType {
+  key: string;
   id: number;
   name: string;
   price: number;
   quantity: number;
+  options: CartItemOption[];
+  components: CartItemComponent[];
 }
 
 type PaymentMethod = "QR_CODE" | "STUDENT_ID";
-type WebSocketStatus = "CONNECTING" | "CONNECTED" | "DISCONNECTED" | "FAILED";
 
 interface NotificationType {
   type: "success" | "error" | "info";
@@ -43,21 +54,12 @@ interface NotificationType {
   submessage?: string;
 }
 
-interface ErrorResponse {
-  code?: string;
-  message?: string;
-}
-
-const ERROR_MESSAGES: Record<string, string> = {
-  ORDER_NOT_FOUND: "주문을 찾을 수 없습니다",
-  ORDER_NOT_PENDING: "이미 처리된 주문입니다",
-  USER_NOT_FOUND: "등록되지 않은 학번입니다",
-  BOOTH_NOT_FOUND: "부스 정보를 찾을 수 없습니다",
-};
-
-const NOTIFICATION_DURATION = 3000;
 const WS_RECONNECT_DELAY = 3000;
-const MAX_RECONNECT_ATTEMPTS = 3;
+
+const getFallbackExpiry = () =>
+  new Date(
+    Date.now() + useConfigStore.getState().config.paymentTimeout * 1000
+  ).toISOString();
 
 export default function PaymentScreen(): React.ReactElement {
   const { items: cart, getTotalAmount, clearCart } = useCartStore();
@@ -74,10 +76,21 @@ export default function PaymentScreen(): React.ReactElement {
     requestMethod,
     setPaymentRequest,
     resetPaymentRequest,
+    getRequestKey,
+    clearRequestKey,
   } = usePaymentStore();
 
-  const [selectedMethod, setSelectedMethod] =
-    useState<PaymentMethod>("QR_CODE");
+  const qrPaymentEnabled = useConfigStore(
+    (state) => state.config.features.qrPayment
+  );
+  const studentIdPaymentEnabled = useConfigStore(
+    (state) => state.config.features.studentIdPayment
+  );
+  const [selectedMethod, setSelectedMethod] = useState<PaymentMethod>(() =>
+    useConfigStore.getState().config.features.qrPayment
+      ? "QR_CODE"
+      : "STUDENT_ID"
+  );
   const [studentId, setStudentId] = useState("");
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [errorCode, setErrorCode] = useState<string | null>(null);
@@ -85,6 +98,7 @@ export default function PaymentScreen(): React.ReactElement {
     null
   );
   const [wsStatus, setWsStatus] = useState<WebSocketStatus>("DISCONNECTED");
+  const reportWsStatus = useConnectionStore((state) => state.setWsStatus);
 
   const isMounted = useRef<boolean>(true);
   const wsReconnectAttemptsRef = useRef<number>(0);
@@ -95,29 +109,26 @@ export default function PaymentScreen(): React.ReactElement {
   const wsReconnectTimeoutRef = useRef<number | null>(null);
 
   const cancelOrderMutation = useMutation({
-    mutationFn: async () => {
+    mutationFn: async (_reason: "CANCELLED" | "EXPIRED") => {
       if (orderId) {
-        return await api.post(`/orders/${orderId}/cancel`);
+        await cancelOrder(orderId);
+      }
+    },
+    onSuccess: (_data, reason) => {
+      if (!orderId) return;
+
+      const shift = useShiftStore.getState();
+      if (reason === "EXPIRED") {
+        shift.recordExpiration(orderId, getTotalAmount());
+      } else {
+        shift.recordCancellation(orderId, getTotalAmount());
       }
-      return null;
     },
     onError: (error) => {
       if (!isMounted.current) return;
 
-      let message = "주문 취소 중 오류가 발생했습니다";
-
-      if (isAxiosError(error) && error.response?.data) {
-        try {
-          const errorData = error.response.data as ErrorResponse;
-          if (errorData.code && ERROR_MESSAGES[errorData.code]) {
-            message = ERROR_MESSAGES[errorData.code];
-          }
-        } catch (e) {
-          console.error("Error parsing response:", e);
-        }
-      }
-
-      showNotification("error", message);
+      const apiError = toApiError(error, "주문 취소 중 오류가 발생했습니다");
+      showNotification("error", apiError.message);
     },
     onSettled: () => {
       if (!isMounted.current) return;
@@ -131,8 +142,7 @@ export default function PaymentScreen(): React.ReactElement {
   const qrPaymentMutation = useMutation({
     mutationFn: async () => {
       if (!orderId) throw new Error("주문 정보가 없습니다");
-      const response = await api.post("/payments/qr", { orderId });
-      return response.data;
+      return await requestQrPayment(orderId, getRequestKey("QR_CODE"));
     },
     onSuccess: (data) => {
       if (!isMounted.current) return;
@@ -142,47 +152,32 @@ export default function PaymentScreen(): React.ReactElement {
         data.token || "",
         "PENDING",
         "QR_CODE",
-        data.expiresAt || new Date(Date.now() + 15 * 60 * 1000).toISOString()
+        data.expiresAt || getFallbackExpiry()
       );
     },
     onError: (error) => {
       if (!isMounted.current) return;
 
-      let errorMsg = "결제 요청을 생성할 수 없습니다";
-      let code: string | null = null;
-
-      if (isAxiosError(error)) {
-        if (error.response?.data) {
-          try {
-            const errorData = error.response.data as ErrorResponse;
-            if (errorData.code) {
-              code = errorData.code;
-              if (ERROR_MESSAGES[code]) {
-                errorMsg = ERROR_MESSAGES[code];
-              }
-            }
-          } catch (e) {
-            console.error("Error parsing response:", e);
-          }
-        } else if (error.code === "ECONNABORTED") {
-          errorMsg = "서버 응답 시간 초과";
-        }
+      const apiError = toApiError(error, "결제 요청을 생성할 수 없습니다");
+      if (!apiError.retryable) {
+        clearRequestKey();
       }
 
-      setErrorCode(code);
-      setErrorMessage(errorMsg);
-      showNotification("error", errorMsg);
+      setErrorCode(apiError.code);
+      setErrorMessage(apiError.message);
+      showNotification("error", apiError.message);
     },
   });
 
   const studentIdPaymentMutation = useMutation({
     mutationFn: async (studentIdValue: string) => {
       if (!orderId) throw new Error("주문 정보가 없습니다");
-      const response = await api.post("/payments/student-id", {
+      const trimmed = studentIdValue.trim();
+      return await requestStudentIdPayment(
         orderId,
-        studentId: studentIdValue.trim(),
-      });
-      return response.data;
+        trimmed,
+        getRequestKey("STUDENT_ID", trimmed)
+      );
     },
     onSuccess: (data) => {
       if (!isMounted.current) return;
@@ -192,7 +187,7 @@ export default function PaymentScreen(): React.ReactElement {
         data.token || studentId,
         "PENDING",
         "STUDENT_ID",
-        data.expiresAt || new Date(Date.now() + 15 * 60 * 1000).toISOString()
+        data.expiresAt || getFallbackExpiry()
       );
 
       showNotification("success", "학번 결제 요청 완료");
@@ -200,30 +195,14 @@ export default function PaymentScreen(): React.ReactElement {
     onError: (error) => {
       if (!isMounted.current) return;
 
-      let errorMsg = "결제 요청에 실패했습니다";
-      let code: string | null = null;
-
-      if (isAxiosError(error)) {
-        if (error.response?.data) {
-          try {
-            const errorData = error.response.data as ErrorResponse;
-            if (errorData.code) {
-              code = errorData.code;
-              if (ERROR_MESSAGES[code]) {
-                errorMsg = ERROR_MESSAGES[code];
-              }
-            }
-          } catch (e) {
-            console.error("Error parsing response:", e);
-          }
-        } else if (error.code === "ECONNABORTED") {
-          errorMsg = "서버 응답 시간 초과";
-        }
+      const apiError = toApiError(error, "결제 요청에 실패했습니다");
+      if (!apiError.retryable) {
+        clearRequestKey();
       }
 
-      setErrorCode(code);
-      setErrorMessage(errorMsg);
-      showNotification("error", errorMsg);
+      setErrorCode(apiError.code);
+      setErrorMessage(apiError.message);
+      showNotification("error", apiError.message);
     },
   });
 
@@ -246,7 +225,7 @@ export default function PaymentScreen(): React.ReactElement {
         if (isMounted.current) {
           setNotification(null);
         }
-      }, NOTIFICATION_DURATION);
+      }, useConfigStore.getState().config.notificationDuration);
     },
     []
   );
@@ -277,7 +256,7 @@ export default function PaymentScreen(): React.ReactElement {
           webSocketRef.current.close();
           webSocketRef.current = null;
         } catch (e) {
-          console.error("Error closing WebSocket:", e);
+          logger.warn("ws", "Failed to close payment socket", e);
         }
       }
     };
@@ -312,7 +291,13 @@ export default function PaymentScreen(): React.ReactElement {
 
   const handleCancel = useCallback(() => {
     if (isMounted.current) {
-      cancelOrderMutation.mutate();
+      cancelOrderMutation.mutate("CANCELLED");
+    }
+  }, [cancelOrderMutation]);
+
+  const handleExpire = useCallback(() => {
+    if (isMounted.current) {
+      cancelOrderMutation.mutate("EXPIRED");
     }
   }, [cancelOrderMutation]);
 
@@ -329,7 +314,7 @@ export default function PaymentScreen(): React.ReactElement {
         }
       }, 1000);
     } else if (timer <= 0 && isActive && isMounted.current) {
-      handleCancel();
+      handleExpire();
     }
 
     if (status === "COMPLETED" && isMounted.current) {
@@ -342,7 +327,7 @@ export default function PaymentScreen(): React.ReactElement {
         timerIntervalRef.current = null;
       }
     };
-  }, [isActive, timer, status, decrementTimer, handleCancel]);
+  }, [isActive, timer, status, decrementTimer, handleExpire]);
 
   const connectWebSocket = useCallback(() => {
     if (!requestId || !isMounted.current) return;
@@ -350,9 +335,11 @@ export default function PaymentScreen(): React.ReactElement {
 
     setWsStatus("CONNECTING");
 
-    const wsUrl =
-      API_URL.replace(/^http(s?):\/\//, (_, s) => (s ? "wss://" : "ws://")) +
-      `/ws/payment-requests/${requestId}`;
+    const wsUrl = `${getWsUrl()}/ws/payment-requests/${requestId}`;
+    logger.info("ws", "Connecting payment socket", {
+      requestId,
+      attempt: wsReconnectAttemptsRef.current,
+    });
 
     try {
       if (
@@ -366,6 +353,7 @@ export default function PaymentScreen(): React.ReactElement {
       webSocketRef.current = ws;
 
       ws.onopen = () => {
+        logger.info("ws", "Payment socket connected", { requestId });
         if (isMounted.current) {
           setWsStatus("CONNECTED");
           wsReconnectAttemptsRef.current = 0;
@@ -377,6 +365,10 @@ export default function PaymentScreen(): React.ReactElement {
 
         try {
           const data = JSON.parse(event.data);
+          logger.info("ws", "Payment socket message", {
+            requestId,
+            status: data.status,
+          });
 
           if (data.status === "COMPLETED") {
             setStatus("COMPLETED");
@@ -390,10 +382,10 @@ export default function PaymentScreen(): React.ReactElement {
           } else if (data.status === "EXPIRED") {
             setStatus("EXPIRED");
             showNotification("error", "결제 시간이 초과되었습니다.");
-            handleCancel();
+            handleExpire();
           }
         } catch (error) {
-          console.error("WebSocket message processing error:", error);
+          logger.error("ws", "Failed to process payment socket message", error);
           if (isMounted.current) {
             setWsStatus("FAILED");
           }
@@ -401,19 +393,26 @@ export default function PaymentScreen(): React.ReactElement {
       };
 
       ws.onerror = () => {
+        logger.warn("ws", "Payment socket error", { requestId });
         if (isMounted.current) {
           setWsStatus("FAILED");
         }
       };
 
       ws.onclose = (event) => {
+        logger.info("ws", "Payment socket closed", {
+          requestId,
+          code: event.code,
+          wasClean: event.wasClean,
+        });
         if (!isMounted.current) return;
 
         if (!event.wasClean) {
           setWsStatus("DISCONNECTED");
 
           if (
-            wsReconnectAttemptsRef.current < MAX_RECONNECT_ATTEMPTS &&
+            wsReconnectAttemptsRef.current <
+              useConfigStore.getState().config.maxReconnectAttempts &&
             requestId &&
             isMounted.current
           ) {
@@ -439,12 +438,12 @@ export default function PaymentScreen(): React.ReactElement {
         }
       };
     } catch (error) {
-      console.error("WebSocket connection error:", error);
+      logger.error("ws", "Payment socket connection failed", error);
       if (isMounted.current) {
         setWsStatus("FAILED");
       }
     }
-  }, [requestId, wsStatus, showNotification, handleCancel]);
+  }, [requestId, wsStatus, showNotification, handleExpire]);
 
   useEffect(() => {
     if (requestId && wsStatus !== "CONNECTED" && isMounted.current) {
@@ -459,7 +458,7 @@ export default function PaymentScreen(): React.ReactElement {
           webSocketRef.current.close();
           webSocketRef.current = null;
         } catch (e) {
-          console.error("Error closing WebSocket:", e);
+          logger.warn("ws", "Failed to close payment socket", e);
         }
       }
 
@@ -470,6 +469,14 @@ export default function PaymentScreen(): React.ReactElement {
     }
   }, [requestId, connectWebSocket, wsStatus]);
 
+  useEffect(() => {
+    reportWsStatus(wsStatus);
+  }, [wsStatus, reportWsStatus]);
+
+  useEffect(() => {
+    return () => reportWsStatus("DISCONNECTED");
+  }, [reportWsStatus]);
+
   const handleReconnectWebSocket = useCallback(() => {
     if (isMounted.current) {
       wsReconnectAttemptsRef.current = 0;
@@ -616,9 +623,18 @@ export default function PaymentScreen(): React.ReactElement {
   const renderCartItem: ListRenderItem<CartItemType> = useCallback(
     ({ item }) => (
       <View style={styles.orderItem}>
-        <Text style={styles.orderItemName} numberOfLines={1}>
-          {item.name}
-        </Text>
+        <View style={styles.orderItemInfo}>
+          <Text style={styles.orderItemName} numberOfLines={1}>
+            {item.name}
+            {item.options.length > 0 &&
+              ` (${item.options.map(({ name }) => name).join(", ")})`}
+          </Text>
+          {item.components.length > 0 && (
+            <Text style={styles.orderItemContents} numberOfLines={1}>
+              {formatBundleContents(item.components)}
+            </Text>
+          )}
+        </View>
         <View style={styles.orderItemDetails}>
           <Text style={styles.orderItemQuantity}>{item.quantity}개</Text>
           <Text style={styles.orderItemPrice}>
@@ -979,61 +995,65 @@ export default function PaymentScreen(): React.ReactElement {
       <View style={styles.mainContent}>
         <View style={styles.leftPanel}>
           <View style={styles.tabBar}>
-            <TouchableOpacity
-              style={[
-                styles.tab,
-                selectedMethod === "QR_CODE" && styles.activeTab,
-              ]}
-              onPress={() => handleMethodChange("QR_CODE")}
-              disabled={isSubmitting}
-              activeOpacity={0.7}
-            >
-              <Ionicons
-                name="qr-code-outline"
-                size={22}
-                color={
-                  selectedMethod === "QR_CODE"
-                    ? COLORS.primary500
-                    : COLORS.gray600
-                }
-              />
-              <Text
+            {(qrPaymentEnabled || selectedMethod === "QR_CODE") && (
+              <TouchableOpacity
                 style={[
-                  styles.tabText,
-                  selectedMethod === "QR_CODE" && styles.activeTabText,
+                  styles.tab,
+                  selectedMethod === "QR_CODE" && styles.activeTab,
                 ]}
+                onPress={() => handleMethodChange("QR_CODE")}
+                disabled={isSubmitting}
+                activeOpacity={0.7}
               >
-                QR 결제
-              </Text>
-            </TouchableOpacity>
-
-            <TouchableOpacity
-              style={[
-                styles.tab,
-                selectedMethod === "STUDENT_ID" && styles.activeTab,
-              ]}
-              onPress={() => handleMethodChange("STUDENT_ID")}
-              disabled={isSubmitting}
-              activeOpacity={0.7}
-            >
-              <Ionicons
-                name="school-outline"
-                size={22}
-                color={
-                  selectedMethod === "STUDENT_ID"
-                    ? COLORS.primary500
-                    : COLORS.gray600
-                }
-              />
-              <Text
+                <Ionicons
+                  name="qr-code-outline"
+                  size={22}
+                  color={
+                    selectedMethod === "QR_CODE"
+                      ? COLORS.primary500
+                      : COLORS.gray600
+                  }
+                />
+                <Text
+                  style={[
+                    styles.tabText,
+                    selectedMethod === "QR_CODE" && styles.activeTabText,
+                  ]}
+                >
+                  QR 결제
+                </Text>
+              </TouchableOpacity>
+            )}
+
+            {(studentIdPaymentEnabled || selectedMethod === "STUDENT_ID") && (
+              <TouchableOpacity
                 style={[
-                  styles.tabText,
-                  selectedMethod === "STUDENT_ID" && styles.activeTabText,
+                  styles.tab,
+                  selectedMethod === "STUDENT_ID" && styles.activeTab,
                 ]}
+                onPress={() => handleMethodChange("STUDENT_ID")}
+                disabled={isSubmitting}
+                activeOpacity={0.7}
               >
-                학번 결제
-              </Text>
-            </TouchableOpacity>
+                <Ionicons
+                  name="school-outline"
+                  size={22}
+                  color={
+                    selectedMethod === "STUDENT_ID"
+                      ? COLORS.primary500
+                      : COLORS.gray600
+                  }
+                />
+                <Text
+                  style={[
+                    styles.tabText,
+                    selectedMethod === "STUDENT_ID" && styles.activeTabText,
+                  ]}
+                >
+                  학번 결제
+                </Text>
+              </TouchableOpacity>
+            )}
           </View>
 
           <View style={styles.paymentContent}>
@@ -1053,7 +1073,7 @@ export default function PaymentScreen(): React.ReactElement {
           <FlatList
             data={cart}
             renderItem={renderCartItem}
-            keyExtractor={(item) => item.id.toString()}
+            keyExtractor={(item) => item.key}
             style={styles.orderList}
             contentContainerStyle={styles.orderListContent}
             showsVerticalScrollIndicator={false}
@@ -1381,12 +1401,20 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: COLORS.gray100,
   },
-  orderItemName: {
+  orderItemInfo: {
     flex: 1,
+    marginRight: 10,
+  },
+  orderItemName: {
     fontSize: 14,
     fontFamily: "Pretendard-Medium",
     color: COLORS.gray800,
-    marginRight: 10,
+  },
+  orderItemContents: {
+    marginTop: 2,
+    fontSize: 12,
+    fontFamily: "Pretendard-Regular",
+    color: COLORS.gray500,
   },
   orderItemDetails: {
     flexDirection: "row",
@@ -1,6 +1,12 @@
 import { Ionicons } from "@expo/vector-icons";
 import { router } from "expo-router";
-import React, { useState, useRef, useCallback } from "react";
+import React, {
+  useState,
+  useRef,
+  useCallback,
+  useEffect,
+  useMemo,
+} from "react";
 import {
   ActivityIndicator,
   Alert,
@@ -8,76 +14,89 @@ import {
   FlatList,
   Image,
   RefreshControl,
+  ScrollView,
+  SectionList,
   StyleSheet,
   Text,
   TouchableOpacity,
   View,
   Platform,
   GestureResponderEvent,
+  ViewToken,
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { COLORS } from "@/constants/colors";
-import { API_URL } from "@/constants/api";
-import { isAxiosError } from "axios";
-import { useAuthStore } from "@/stores/auth";
-import { useCartStore } from "@/stores/cart";
+import EnvironmentBadge from "@/components/environment-badge";
+import ProductDetailSheet from "@/components/product-detail-sheet";
+import ProductStatusSheet from "@/components/product-status-sheet";
+import SearchKeyboard from "@/components/search-keyboard";
+import StaffPinPad from "@/components/staff-pin-pad";
+import { CartItemComponent, CartItemOption, useCartStore } from "@/stores/cart";
+import { useConfigStore } from "@/stores/config";
 import { usePaymentStore } from "@/stores/payment";
-import api from "@/libs/api";
+import { useStaffStore } from "@/stores/staff";
+import {
+  createOrder,
+  fetchAvailableProducts,
+  fetchBoothProducts,
+  updateProductStatus,
+} from "@/libs/client";
+import {
+  formatBundleContents,
+  getRemainingStock,
+  groupProductsByCategory,
+  isBundle,
+  ProductSection,
+} from "@/libs/catalog";
+import { holdInteraction } from "@/libs/activity";
+import { toApiError } from "@/libs/errors";
+import { assembleHangul, matchesHangulQuery } from "@/libs/hangul";
+import { beginAddBoothProfile } from "@/libs/kiosk";
+import { logger } from "@/libs/logger";
+import { CreateOrderRequest, Product, ProductStatus } from "@/libs/schemas";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-
-interface ProductResponse {
-  id: number;
-  name: string;
-  price: number;
-  description?: string;
-  imageUrl?: string;
-  status: "AVAILABLE" | "SOLD_OUT" | "HIDDEN";
-  stock: number;
-  sortOrder: number;
-  createdAt: string;
-  updatedAt: string;
-}
+import Toast from "react-native-toast-message";
 
 interface CartItemType {
+  key: string;
   id: number;
   name: string;
   price: number;
   quantity: number;
+  options: CartItemOption[];
+  components: CartItemComponent[];
 }
 
-interface CreateOrderItemRequest {
-  productId: number;
-  quantity: number;
-}
-
-interface CreateOrderRequest {
-  items: CreateOrderItemRequest[];
-}
-
-const ERROR_CODES: Record<string, string> = {
-  INSUFFICIENT_STOCK: "재고가 부족합니다",
-  PRODUCT_NOT_FOUND: "일부 상품이 판매 불가능합니다",
-  PRODUCT_UNAVAILABLE: "판매 중단된 상품이 포함되어 있습니다",
-};
-
 export default function ProductsScreen() {
-  const [secretTapCount, setSecretTapCount] = useState(0);
+  const [pinPadVisible, setPinPadVisible] = useState(false);
+  const [statusTarget, setStatusTarget] = useState<Product | null>(null);
+  const [detailTargetId, setDetailTargetId] = useState<number | null>(null);
+  const [activeSection, setActiveSection] = useState<string | null>(null);
+  const [searchKeys, setSearchKeys] = useState<string[]>([]);
+  const [keyboardVisible, setKeyboardVisible] = useState<boolean>(false);
+  const sectionListRef = useRef<SectionList<Product[], ProductSection>>(null);
+  const sectionScrollUntil = useRef<number>(0);
   const [alertVisible, setAlertVisible] = useState(false);
   const [alertMessage, setAlertMessage] = useState("");
   const alertOpacity = useRef(new Animated.Value(0)).current;
 
   const queryClient = useQueryClient();
-  const { signOut } = useAuthStore();
   const {
     items: cart,
     addItem,
     updateQuantity,
     clearCart,
+    getCheckoutKey,
+    clearCheckoutKey,
     getTotalAmount,
     getTotalItems,
+    getProductQuantity,
   } = useCartStore();
   const { createPayment } = usePaymentStore();
+  const staffActive = useStaffStore((state) => state.active);
+  const productColumns = useConfigStore((state) => state.config.productColumns);
 
+  // Staff mode lists hidden products too so they can be toggled back.
   const {
     data: products = [],
     isLoading,
@@ -85,48 +104,27 @@ export default function ProductsScreen() {
     refetch,
     isRefetching,
   } = useQuery({
-    queryKey: ["products"],
-    queryFn: async () => {
-      const response = await api.get<ProductResponse[]>(
-        `${API_URL}/products/available`
-      );
-      return response.data;
-    },
+    queryKey: staffActive ? ["products", "all"] : ["products"],
+    queryFn: staffActive ? fetchBoothProducts : fetchAvailableProducts,
     staleTime: 1000 * 60 * 5,
-    retry: 2,
   });
 
   const orderMutation = useMutation({
-    mutationFn: (orderRequest: CreateOrderRequest) => {
-      return api.post(`${API_URL}/orders`, orderRequest, {
-        headers: {
-          Authorization: `Bearer ${useAuthStore.getState().token}`,
-        },
-      });
-    },
-    onSuccess: (response) => {
-      if (response.data?.id) {
-        createPayment(response.data.id);
-        router.navigate("/payment");
-      } else {
-        throw new Error("주문 생성 실패");
-      }
+    mutationFn: (orderRequest: CreateOrderRequest) =>
+      createOrder(orderRequest, getCheckoutKey()),
+    onSuccess: (order) => {
+      setSearchKeys([]);
+      setKeyboardVisible(false);
+      createPayment(order.id);
+      router.navigate("/payment");
     },
     onError: (error) => {
-      let errorMessage = "주문 처리에 실패했습니다";
-
-      if (isAxiosError(error) && error.response?.data) {
-        try {
-          const errorData = error.response.data;
-          if (errorData?.code && ERROR_CODES[errorData.code]) {
-            errorMessage = ERROR_CODES[errorData.code];
-          }
-        } catch (e) {
-          console.error("Error parsing response:", e);
-        }
+      const apiError = toApiError(error, "주문 처리에 실패했습니다");
+      if (!apiError.retryable) {
+        clearCheckoutKey();
       }
 
-      showAlert(errorMessage);
+      showAlert(apiError.message);
       queryClient.invalidateQueries({ queryKey: ["products"] });
     },
   });
@@ -156,34 +154,97 @@ export default function ProductsScreen() {
     [alertOpacity]
   );
 
-  const handleSecretTap = useCallback(() => {
-    const newCount = secretTapCount + 1;
-    setSecretTapCount(newCount);
-
-    if (newCount >= 7) {
-      Alert.alert(
-        "키오스크 연결 해제",
-        "이 키오스크의 연결을 해제하시겠습니까?",
-        [
-          {
-            text: "취소",
-            style: "cancel",
-            onPress: () => setSecretTapCount(0),
-          },
-          {
-            text: "연결 해제",
-            style: "destructive",
-            onPress: () => {
-              signOut();
-              clearCart();
-              router.replace("/(auth)");
-            },
-          },
-        ]
+  const statusMutation = useMutation({
+    mutationFn: ({
+      product,
+      status,
+    }: {
+      product: Product;
+      status: ProductStatus;
+    }) => updateProductStatus(product.id, status),
+    onMutate: async ({ product, status }) => {
+      await queryClient.cancelQueries({ queryKey: ["products"] });
+      const snapshot = queryClient.getQueriesData<Product[]>({
+        queryKey: ["products"],
+      });
+
+      queryClient.setQueriesData<Product[]>(
+        { queryKey: ["products"] },
+        (previous) =>
+          previous?.map((item) =>
+            item.id === product.id ? { ...item, status } : item
+          )
       );
-      setSecretTapCount(0);
+
+      return { snapshot };
+    },
+    onSuccess: (updated) => {
+      logger.info("app", "Product status changed", {
+        productId: updated.id,
+        status: updated.status,
+      });
+    },
+    onError: (error, { product }, context) => {
+      context?.snapshot.forEach(([queryKey, data]) => {
+        queryClient.setQueryData(queryKey, data);
+      });
+
+      const apiError = toApiError(error, "판매 상태를 변경하지 못했습니다");
+      logger.warn("app", "Product status change failed", {
+        productId: product.id,
+        code: apiError.code,
+      });
+      Toast.show({
+        type: "error",
+        text1: `${product.name} 상태 변경 실패`,
+        text2: apiError.message,
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+    },
+  });
+
+  const handleStatusSelect = useCallback(
+    (product: Product, status: ProductStatus) => {
+      setStatusTarget(null);
+      useStaffStore.getState().touch();
+      statusMutation.mutate({ product, status });
+    },
+    [statusMutation]
+  );
+
+  const handleStaffExit = useCallback(() => {
+    useStaffStore.getState().exit();
+  }, []);
+
+  const handleStaffEntry = useCallback(() => {
+    if (useStaffStore.getState().pinHash) {
+      setPinPadVisible(true);
+      return;
     }
-  }, [secretTapCount, signOut, clearCart]);
+
+    // Without a PIN the booth account itself has to be verified first
+    Alert.alert(
+      "관리자 PIN 미설정",
+      "관리자 PIN이 설정되지 않았습니다. 부스 계정으로 다시 로그인하고 관리자 PIN을 입력해주세요.",
+      [
+        { text: "취소", style: "cancel" },
+        {
+          text: "부스 로그인",
+          onPress: () => {
+            beginAddBoothProfile();
+            router.replace("/(auth)");
+          },
+        },
+      ]
+    );
+  }, []);
+
+  const handleStaffVerified = useCallback(() => {
+    setPinPadVisible(false);
+    router.push("/staff");
+  }, []);
 
   const handlePayment = useCallback(() => {
     if (cart.length === 0) {
@@ -195,6 +256,7 @@ export default function ProductsScreen() {
       items: cart.map((item) => ({
         productId: item.id,
         quantity: item.quantity,
+        optionIds: item.options.map(({ optionId }) => optionId),
       })),
     };
 
@@ -202,44 +264,75 @@ export default function ProductsScreen() {
   }, [cart, orderMutation, showAlert]);
 
   const handleAddToCart = useCallback(
-    (product: ProductResponse) => {
-      if (product.status === "SOLD_OUT" || product.stock <= 0) {
-        showAlert("품절된 상품입니다");
-        return;
+    (
+      product: Product,
+      quantity: number = 1,
+      options: CartItemOption[] = []
+    ): boolean => {
+      if (product.status === "HIDDEN") {
+        showAlert("숨김 처리된 상품입니다");
+        return false;
       }
 
-      const existingItem = cart.find((item) => item.id === product.id);
-      const currentQuantity = existingItem ? existingItem.quantity : 0;
+      if (
+        product.status === "SOLD_OUT" ||
+        getRemainingStock(product, products) <= 0
+      ) {
+        showAlert("품절된 상품입니다");
+        return false;
+      }
 
-      if (currentQuantity >= product.stock) {
-        showAlert("재고가 부족합니다");
-        return;
+      if (getRemainingStock(product, products, getProductQuantity) < quantity) {
+        showAlert(
+          isBundle(product)
+            ? "세트 구성 상품의 재고가 부족합니다"
+            : "재고가 부족합니다"
+        );
+        return false;
       }
 
-      addItem({
-        id: product.id,
-        name: product.name,
-        price: product.price,
-      });
+      addItem(
+        {
+          id: product.id,
+          name: product.name,
+          price: product.price,
+          components: product.bundleItems.map(
+            ({ productId, productName, quantity }) => ({
+              productId,
+              name: productName,
+              quantity,
+            })
+          ),
+        },
+        quantity,
+        options
+      );
+      return true;
     },
-    [cart, addItem, showAlert]
+    [products, addItem, getProductQuantity, showAlert]
   );
 
   const handleQuantityUpdate = useCallback(
-    (id: number, newQuantity: number) => {
+    (item: CartItemType, newQuantity: number) => {
       if (newQuantity <= 0) {
-        updateQuantity(id, 0);
+        updateQuantity(item.key, 0);
         return;
       }
 
-      const product = products.find((p) => p.id === id);
-      if (product && newQuantity > product.stock) {
+      // Stock is shared by every option combination and bundle using it
+      const product = products.find((p) => p.id === item.id);
+      if (
+        product &&
+        newQuantity > item.quantity &&
+        getRemainingStock(product, products, getProductQuantity) <
+          newQuantity - item.quantity
+      ) {
         showAlert("재고가 부족합니다");
         return;
       }
-      updateQuantity(id, newQuantity);
+      updateQuantity(item.key, newQuantity);
     },
-    [products, updateQuantity, showAlert]
+    [products, updateQuantity, getProductQuantity, showAlert]
   );
 
   const handleRefetch = useCallback(
@@ -249,22 +342,37 @@ export default function ProductsScreen() {
     [refetch]
   );
 
-  const renderProductItem = useCallback(
-    ({ item }: { item: ProductResponse }) => {
-      const isSoldOut = item.status === "SOLD_OUT" || item.stock <= 0;
-      const cartItem = cart.find((cartItem) => cartItem.id === item.id);
-      const inCart = cartItem !== undefined;
+  const renderProduct = useCallback(
+    (item: Product) => {
+      const stock = getRemainingStock(item, products);
+      const isSoldOut = item.status === "SOLD_OUT" || stock <= 0;
+      const isHidden = item.status === "HIDDEN";
+      const cartQuantity = cart.reduce(
+        (total, cartItem) =>
+          cartItem.id === item.id ? total + cartItem.quantity : total,
+        0
+      );
+      const inCart = cartQuantity > 0;
 
       return (
         <TouchableOpacity
+          key={item.id}
           style={[
             styles.productItem,
-            isSoldOut && styles.soldOutItem,
+            (isSoldOut || isHidden) && styles.soldOutItem,
             inCart && styles.inCartItem,
           ]}
-          onPress={() => handleAddToCart(item)}
+          onPress={() =>
+            item.optionGroups.length > 0
+              ? setDetailTargetId(item.id)
+              : handleAddToCart(item)
+          }
+          onLongPress={() =>
+            staffActive ? setStatusTarget(item) : setDetailTargetId(item.id)
+          }
+          delayLongPress={600}
           activeOpacity={0.7}
-          disabled={isSoldOut}
+          disabled={isSoldOut && !staffActive}
         >
           <View style={styles.productImageContainer}>
             <Image
@@ -276,14 +384,37 @@ export default function ProductsScreen() {
               style={styles.productImage}
               resizeMode="cover"
             />
-            {isSoldOut && (
+            {isHidden ? (
               <View style={styles.soldOutOverlay}>
-                <Text style={styles.soldOutText}>품절</Text>
+                <Text style={styles.soldOutText}>숨김</Text>
+              </View>
+            ) : (
+              isSoldOut && (
+                <View style={styles.soldOutOverlay}>
+                  <Text style={styles.soldOutText}>품절</Text>
+                </View>
+              )
+            )}
+            <TouchableOpacity
+              style={styles.infoButton}
+              onPress={() => setDetailTargetId(item.id)}
+              hitSlop={8}
+              activeOpacity={0.7}
+            >
+              <Ionicons
+                name="information-circle"
+                size={26}
+                color={COLORS.white}
+              />
+            </TouchableOpacity>
+            {isBundle(item) && (
+              <View style={styles.bundleTag}>
+                <Text style={styles.bundleTagText}>세트</Text>
               </View>
             )}
             {inCart && (
               <View style={styles.cartBadge}>
-                <Text style={styles.cartBadgeText}>{cartItem.quantity}</Text>
+                <Text style={styles.cartBadgeText}>{cartQuantity}</Text>
               </View>
             )}
           </View>
@@ -302,26 +433,127 @@ export default function ProductsScreen() {
             </Text>
             <View style={styles.stockContainer}>
               {!isSoldOut && (
-                <Text style={styles.stockText}>재고: {item.stock}개</Text>
+                <Text style={styles.stockText}>재고: {stock}개</Text>
               )}
             </View>
           </View>
         </TouchableOpacity>
       );
     },
-    [cart, handleAddToCart]
+    [cart, products, handleAddToCart, staffActive]
+  );
+
+  // Looked up on every render so refetched stock and prices reach the sheet
+  const detailTarget = products.find(({ id }) => id === detailTargetId) ?? null;
+
+  const interacting =
+    !!detailTarget ||
+    !!statusTarget ||
+    pinPadVisible ||
+    keyboardVisible ||
+    searchKeys.length > 0;
+
+  // Keeps background updates from reloading while a customer is mid-search
+  // or has a sheet open
+  useEffect(() => (interacting ? holdInteraction() : undefined), [interacting]);
+
+  const searchQuery = useMemo(() => assembleHangul(searchKeys), [searchKeys]);
+  const searching = searchQuery.trim().length > 0;
+
+  const sections = useMemo(
+    () =>
+      groupProductsByCategory(
+        searching
+          ? products.filter(({ name }) => matchesHangulQuery(name, searchQuery))
+          : products,
+        productColumns
+      ),
+    [products, productColumns, searching, searchQuery]
+  );
+  const showSections = sections.length > 1;
+  const currentSection = activeSection ?? sections[0]?.key ?? null;
+
+  const handleSectionPress = useCallback(
+    (sectionIndex: number) => {
+      const section = sections[sectionIndex];
+      if (!section) return;
+
+      // Ignore visibility updates while the list scrolls to the tapped section
+      sectionScrollUntil.current = Date.now() + 600;
+      setActiveSection(section.key);
+      sectionListRef.current?.scrollToLocation({
+        sectionIndex,
+        itemIndex: 0,
+        viewOffset: 0,
+      });
+    },
+    [sections]
+  );
+
+  const handleViewableItemsChanged = useRef(
+    ({ viewableItems }: { viewableItems: ViewToken[] }) => {
+      if (Date.now() < sectionScrollUntil.current) return;
+
+      const key = viewableItems[0]?.section?.key;
+      if (key) {
+        setActiveSection(key);
+      }
+    }
+  ).current;
+
+  const handleScrollToIndexFailed = useCallback(
+    ({
+      index,
+      averageItemLength,
+    }: {
+      index: number;
+      averageItemLength: number;
+    }) => {
+      sectionListRef.current
+        ?.getScrollResponder()
+        ?.scrollTo({ y: index * averageItemLength, animated: true });
+    },
+    []
+  );
+
+  const renderProductRow = useCallback(
+    ({ item: row }: { item: Product[] }) => (
+      <View style={styles.productRow}>
+        {row.map(renderProduct)}
+        {Array.from({ length: productColumns - row.length }, (_, index) => (
+          <View
+            key={`placeholder-${index}`}
+            style={styles.productPlaceholder}
+          />
+        ))}
+      </View>
+    ),
+    [renderProduct, productColumns]
+  );
+
+  const renderSectionHeader = useCallback(
+    ({ section }: { section: ProductSection }) =>
+      showSections ? (
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>{section.title}</Text>
+          <Text style={styles.sectionCount}>{section.products.length}개</Text>
+        </View>
+      ) : null,
+    [showSections]
   );
 
   const renderCartItem = useCallback(
     ({ item }: { item: CartItemType }) => {
       const product = products.find((p) => p.id === item.id);
-      const maxReached = product && item.quantity >= product.stock;
+      const maxReached =
+        product &&
+        getRemainingStock(product, products, getProductQuantity) <= 0;
 
       return (
         <View style={styles.cartItem}>
           <TouchableOpacity
             style={styles.cartItemInfo}
-            onPress={() => updateQuantity(item.id, 0)}
+            onPress={() => updateQuantity(item.key, 0)}
             activeOpacity={0.7}
           >
             <Text
@@ -331,6 +563,16 @@ export default function ProductsScreen() {
             >
               {item.name}
             </Text>
+            {item.components.length > 0 && (
+              <Text style={styles.cartItemOptions} numberOfLines={1}>
+                {formatBundleContents(item.components)}
+              </Text>
+            )}
+            {item.options.length > 0 && (
+              <Text style={styles.cartItemOptions} numberOfLines={1}>
+                {item.options.map(({ name }) => name).join(", ")}
+              </Text>
+            )}
             <View style={styles.cartItemPriceContainer}>
               <Text style={styles.cartItemPrice}>
                 {(item.price * item.quantity).toLocaleString()}원
@@ -343,7 +585,7 @@ export default function ProductsScreen() {
           <View style={styles.quantityContainer}>
             <TouchableOpacity
               style={[styles.quantityButton, styles.minusButton]}
-              onPress={() => handleQuantityUpdate(item.id, item.quantity - 1)}
+              onPress={() => handleQuantityUpdate(item, item.quantity - 1)}
               activeOpacity={0.7}
             >
               <Ionicons name="remove" size={18} color={COLORS.white} />
@@ -355,7 +597,7 @@ export default function ProductsScreen() {
                 styles.plusButton,
                 maxReached && styles.quantityButtonDisabled,
               ]}
-              onPress={() => handleQuantityUpdate(item.id, item.quantity + 1)}
+              onPress={() => handleQuantityUpdate(item, item.quantity + 1)}
               disabled={maxReached}
               activeOpacity={0.7}
             >
@@ -365,7 +607,7 @@ export default function ProductsScreen() {
         </View>
       );
     },
-    [products, updateQuantity, handleQuantityUpdate]
+    [cart, products, updateQuantity, handleQuantityUpdate, getProductQuantity]
   );
 
   return (
@@ -374,7 +616,8 @@ export default function ProductsScreen() {
       <View style={styles.header}>
         <TouchableOpacity
           style={styles.logoContainer}
-          onPress={handleSecretTap}
+          onLongPress={handleStaffEntry}
+          delayLongPress={3000}
           activeOpacity={1}
         >
           <Image
@@ -388,8 +631,32 @@ export default function ProductsScreen() {
             </Text>
           </View>
         </TouchableOpacity>
+        <EnvironmentBadge />
       </View>
 
+      {staffActive && (
+        <View style={styles.staffBanner}>
+          <Ionicons name="construct-outline" size={18} color={COLORS.white} />
+          <Text style={styles.staffBannerText}>
+            관리자 모드 · 상품을 길게 눌러 판매 상태를 변경합니다
+          </Text>
+          <TouchableOpacity
+            style={styles.staffBannerButton}
+            onPress={handleStaffEntry}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.staffBannerButtonText}>관리자 메뉴</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.staffBannerButton}
+            onPress={handleStaffExit}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.staffBannerButtonText}>종료</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
       <View style={styles.contentContainer}>
         <View style={styles.productContainer}>
           {isLoading && !isRefetching ? (
@@ -414,22 +681,118 @@ export default function ProductsScreen() {
               </TouchableOpacity>
             </View>
           ) : (
-            <FlatList
-              data={products}
-              renderItem={renderProductItem}
-              keyExtractor={(item) => item.id.toString()}
-              numColumns={3}
-              contentContainerStyle={styles.productList}
-              showsVerticalScrollIndicator={false}
-              refreshControl={
-                <RefreshControl
-                  refreshing={isRefetching}
-                  onRefresh={handleRefetch}
-                  colors={[COLORS.primary600]}
-                  tintColor={COLORS.primary600}
+            <>
+              <TouchableOpacity
+                style={[
+                  styles.searchBar,
+                  keyboardVisible && styles.searchBarFocused,
+                ]}
+                onPress={() => setKeyboardVisible(true)}
+                activeOpacity={0.8}
+              >
+                <Ionicons name="search" size={20} color={COLORS.gray500} />
+                <Text
+                  style={[
+                    styles.searchText,
+                    !searching && styles.searchPlaceholder,
+                  ]}
+                  numberOfLines={1}
+                >
+                  {searching
+                    ? searchQuery
+                    : "상품 이름이나 초성으로 검색 (예: ㄸㅂㅇ)"}
+                </Text>
+                {searchKeys.length > 0 && (
+                  <TouchableOpacity
+                    onPress={() => setSearchKeys([])}
+                    hitSlop={8}
+                    activeOpacity={0.7}
+                  >
+                    <Ionicons
+                      name="close-circle"
+                      size={20}
+                      color={COLORS.gray400}
+                    />
+                  </TouchableOpacity>
+                )}
+              </TouchableOpacity>
+              {showSections && (
+                <ScrollView
+                  horizontal
+                  style={styles.categoryBar}
+                  contentContainerStyle={styles.categoryBarContent}
+                  showsHorizontalScrollIndicator={false}
+                >
+                  {sections.map((section, index) => {
+                    const active = section.key === currentSection;
+
+                    return (
+                      <TouchableOpacity
+                        key={section.key}
+                        style={[
+                          styles.categoryTab,
+                          active && styles.categoryTabActive,
+                        ]}
+                        onPress={() => handleSectionPress(index)}
+                        activeOpacity={0.7}
+                      >
+                        <Text
+                          style={[
+                            styles.categoryTabText,
+                            active && styles.categoryTabTextActive,
+                          ]}
+                        >
+                          {section.title}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </ScrollView>
+              )}
+              <SectionList
+                ref={sectionListRef}
+                sections={sections}
+                renderItem={renderProductRow}
+                renderSectionHeader={renderSectionHeader}
+                keyExtractor={(row) => row.map(({ id }) => id).join("-")}
+                stickySectionHeadersEnabled
+                onViewableItemsChanged={handleViewableItemsChanged}
+                onScrollToIndexFailed={handleScrollToIndexFailed}
+                keyboardShouldPersistTaps="handled"
+                ListEmptyComponent={
+                  searching ? (
+                    <View style={styles.emptySearch}>
+                      <Ionicons
+                        name="search-outline"
+                        size={48}
+                        color={COLORS.gray300}
+                      />
+                      <Text style={styles.emptySearchText}>
+                        {`'${searchQuery}'에 맞는 상품이 없습니다`}
+                      </Text>
+                    </View>
+                  ) : null
+                }
+                contentContainerStyle={styles.productList}
+                showsVerticalScrollIndicator={false}
+                refreshControl={
+                  <RefreshControl
+                    refreshing={isRefetching}
+                    onRefresh={handleRefetch}
+                    colors={[COLORS.primary600]}
+                    tintColor={COLORS.primary600}
+                  />
+                }
+              />
+              {keyboardVisible && (
+                <SearchKeyboard
+                  onKey={(key) => setSearchKeys((keys) => [...keys, key])}
+                  onBackspace={() => setSearchKeys((keys) => keys.slice(0, -1))}
+                  onClear={() => setSearchKeys([])}
+                  onClose={() => setKeyboardVisible(false)}
                 />
-              }
-            />
+              )}
+            </>
           )}
         </View>
 
@@ -471,7 +834,7 @@ export default function ProductsScreen() {
               <FlatList
                 data={cart as CartItemType[]}
                 renderItem={renderCartItem}
-                keyExtractor={(item) => item.id.toString()}
+                keyExtractor={(item) => item.key}
                 style={styles.cartItemList}
                 showsVerticalScrollIndicator={false}
               />
@@ -527,6 +890,34 @@ export default function ProductsScreen() {
           </View>
         </Animated.View>
       )}
+
+      <StaffPinPad
+        visible={pinPadVisible}
+        onClose={() => setPinPadVisible(false)}
+        onSuccess={handleStaffVerified}
+      />
+
+      <ProductDetailSheet
+        product={detailTarget}
+        stock={detailTarget ? getRemainingStock(detailTarget, products) : 0}
+        remaining={
+          detailTarget
+            ? getRemainingStock(detailTarget, products, getProductQuantity)
+            : 0
+        }
+        onAdd={(product, quantity, options) => {
+          if (handleAddToCart(product, quantity, options)) {
+            setDetailTargetId(null);
+          }
+        }}
+        onClose={() => setDetailTargetId(null)}
+      />
+
+      <ProductStatusSheet
+        product={statusTarget}
+        onSelect={handleStatusSelect}
+        onClose={() => setStatusTarget(null)}
+      />
     </SafeAreaView>
   );
 }
@@ -548,6 +939,7 @@ const styles = StyleSheet.create({
   header: {
     flexDirection: "row",
     alignItems: "center",
+    justifyContent: "space-between",
     paddingHorizontal: 24,
     paddingVertical: 16,
     borderBottomWidth: 1,
@@ -577,6 +969,32 @@ const styles = StyleSheet.create({
     color: COLORS.primary600,
     fontFamily: "Pretendard-SemiBold",
   },
+  staffBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingHorizontal: 24,
+    paddingVertical: 8,
+    backgroundColor: COLORS.gray800,
+  },
+  staffBannerText: {
+    flex: 1,
+    fontSize: 14,
+    fontFamily: "Pretendard-Medium",
+    color: COLORS.white,
+  },
+  staffBannerButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: COLORS.gray500,
+  },
+  staffBannerButtonText: {
+    fontSize: 13,
+    fontFamily: "Pretendard-SemiBold",
+    color: COLORS.white,
+  },
   contentContainer: {
     flex: 1,
     flexDirection: "row",
@@ -623,6 +1041,93 @@ const styles = StyleSheet.create({
   productList: {
     paddingBottom: 24,
   },
+  searchBar: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    height: 48,
+    marginHorizontal: 8,
+    marginBottom: 12,
+    paddingHorizontal: 16,
+    borderRadius: 24,
+    borderWidth: 1,
+    borderColor: COLORS.gray200,
+    backgroundColor: COLORS.gray50,
+  },
+  searchBarFocused: {
+    borderColor: COLORS.primary500,
+    backgroundColor: COLORS.white,
+  },
+  searchText: {
+    flex: 1,
+    fontSize: 16,
+    fontFamily: "Pretendard-Medium",
+    color: COLORS.text,
+  },
+  searchPlaceholder: {
+    color: COLORS.gray400,
+  },
+  emptySearch: {
+    alignItems: "center",
+    paddingTop: 80,
+  },
+  emptySearchText: {
+    marginTop: 16,
+    fontSize: 16,
+    fontFamily: "Pretendard-Medium",
+    color: COLORS.gray500,
+  },
+  categoryBar: {
+    flexGrow: 0,
+    marginBottom: 8,
+  },
+  categoryBarContent: {
+    gap: 8,
+    paddingHorizontal: 8,
+  },
+  categoryTab: {
+    paddingVertical: 10,
+    paddingHorizontal: 18,
+    borderRadius: 20,
+    backgroundColor: COLORS.gray100,
+  },
+  categoryTabActive: {
+    backgroundColor: COLORS.primary600,
+  },
+  categoryTabText: {
+    fontSize: 15,
+    fontFamily: "Pretendard-SemiBold",
+    color: COLORS.gray700,
+  },
+  categoryTabTextActive: {
+    color: COLORS.white,
+  },
+  sectionHeader: {
+    flexDirection: "row",
+    alignItems: "baseline",
+    gap: 6,
+    paddingHorizontal: 8,
+    paddingTop: 12,
+    paddingBottom: 4,
+    backgroundColor: COLORS.white,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontFamily: "Pretendard-Bold",
+    color: COLORS.text,
+  },
+  sectionCount: {
+    fontSize: 14,
+    fontFamily: "Pretendard-Medium",
+    color: COLORS.textSecondary,
+  },
+  productRow: {
+    flexDirection: "row",
+  },
+  productPlaceholder: {
+    flex: 1,
+    margin: 8,
+  },
   productItem: {
     flex: 1,
     margin: 8,
@@ -672,6 +1177,27 @@ const styles = StyleSheet.create({
     borderRadius: 20,
     overflow: "hidden",
   },
+  infoButton: {
+    position: "absolute",
+    top: 6,
+    left: 6,
+    borderRadius: 13,
+    backgroundColor: "rgba(0,0,0,0.35)",
+  },
+  bundleTag: {
+    position: "absolute",
+    bottom: 6,
+    left: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 6,
+    backgroundColor: COLORS.primary600,
+  },
+  bundleTagText: {
+    fontSize: 12,
+    fontFamily: "Pretendard-SemiBold",
+    color: COLORS.white,
+  },
   cartBadge: {
     position: "absolute",
     top: 8,
@@ -804,6 +1330,12 @@ const styles = StyleSheet.create({
     color: COLORS.text,
     marginBottom: 4,
   },
+  cartItemOptions: {
+    fontSize: 13,
+    fontFamily: "Pretendard-Regular",
+    color: COLORS.gray500,
+    marginBottom: 4,
+  },
   cartItemPriceContainer: {
     flexDirection: "row",
     alignItems: "center",
@@ -0,0 +1,410 @@
+import StaffPinPad from "@/components/staff-pin-pad";
+import { COLORS } from "@/constants/colors";
+import { registerKiosk } from "@/libs/client";
+import { toApiError } from "@/libs/errors";
+import { startKioskSession } from "@/libs/kiosk";
+import { logger } from "@/libs/logger";
+import {
+  RegistrationPayload,
+  clearRegistrationLinkPending,
+  parseRegistrationParams,
+} from "@/libs/registration";
+import { useAuthStore } from "@/stores/auth";
+import { isCustomApiUrl } from "@/stores/environment";
+import { usePaymentStore } from "@/stores/payment";
+import { useStaffStore } from "@/stores/staff";
+import { Ionicons } from "@expo/vector-icons";
+import { useMutation } from "@tanstack/react-query";
+import { router, useLocalSearchParams } from "expo-router";
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import {
+  ActivityIndicator,
+  BackHandler,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+export default function RegisterLinkScreen(): React.ReactElement {
+  const params = useLocalSearchParams<{
+    token?: string;
+    api?: string;
+    ws?: string;
+    booth?: string;
+    pin?: string;
+  }>();
+  const authenticated = useAuthStore((state) => state.authenticated);
+  const paymentActive = usePaymentStore((state) => state.isActive);
+  const pinHash = useStaffStore((state) => state.pinHash);
+  const isMounted = useRef<boolean>(true);
+  const registration = useMemo(
+    () => parseRegistrationParams(params),
+    [params.token, params.api, params.ws, params.booth, params.pin]
+  );
+  const environment = registration?.environment ?? null;
+  // Any page can open this link, so a link that points the kiosk at another
+  // server is never applied without confirmation
+  const changesServer = !!(environment?.apiUrl || environment?.wsUrl);
+  // Only staff may replace a booth session or a PIN-protected setup
+  const requiresPin = authenticated || !!pinHash;
+  const [confirmed, setConfirmed] = useState<boolean>(
+    !requiresPin && !changesServer
+  );
+  const [pinPadVisible, setPinPadVisible] = useState<boolean>(false);
+
+  const registerMutation = useMutation({
+    mutationFn: ({ token, environment }: RegistrationPayload) =>
+      registerKiosk(token, environment?.apiUrl ?? undefined),
+    onSuccess: async (data, { environment, staffPinHash }) => {
+      if (!isMounted.current) return;
+
+      const target = await startKioskSession(data, {
+        environment,
+        staffPinHash,
+      });
+      if (isMounted.current) {
+        router.replace(target);
+      }
+    },
+    onError: (error) => {
+      logger.error("auth", "Kiosk registration failed", error);
+    },
+  });
+
+  useEffect(() => {
+    isMounted.current = true;
+    clearRegistrationLinkPending();
+
+    const backHandler = BackHandler.addEventListener(
+      "hardwareBackPress",
+      () => true
+    );
+
+    return () => {
+      isMounted.current = false;
+      backHandler.remove();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (
+      registration &&
+      confirmed &&
+      registerMutation.isIdle &&
+      isMounted.current
+    ) {
+      registerMutation.mutate(registration);
+    }
+  }, [registration, confirmed, registerMutation]);
+
+  const handleCancel = useCallback(() => {
+    if (!isMounted.current || registerMutation.isPending) return;
+    router.replace(authenticated ? "/products" : "/(auth)");
+  }, [authenticated, registerMutation.isPending]);
+
+  const handleConfirm = useCallback(() => {
+    if (!isMounted.current) return;
+
+    if (requiresPin) {
+      setPinPadVisible(true);
+    } else {
+      setConfirmed(true);
+    }
+  }, [requiresPin]);
+
+  const handlePinSuccess = useCallback(() => {
+    useStaffStore.getState().exit();
+    if (isMounted.current) {
+      setPinPadVisible(false);
+      setConfirmed(true);
+    }
+  }, []);
+
+  const handleRetry = useCallback(() => {
+    if (!isMounted.current || !registration) return;
+    registerMutation.mutate(registration);
+  }, [registration, registerMutation]);
+
+  const renderContent = () => {
+    if (!registration) {
+      return (
+        <>
+          <Ionicons name="link-outline" size={72} color={COLORS.danger500} />
+          <Text style={styles.title}>유효하지 않은 등록 링크입니다</Text>
+          <Text style={styles.message}>
+            등록 링크의 형식이 올바르지 않습니다. 새 등록 링크를 요청해주세요.
+          </Text>
+          <TouchableOpacity
+            style={styles.primaryButton}
+            onPress={handleCancel}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.primaryButtonText}>돌아가기</Text>
+          </TouchableOpacity>
+        </>
+      );
+    }
+
+    if (!confirmed && requiresPin && !pinHash) {
+      return (
+        <>
+          <Ionicons
+            name="lock-closed-outline"
+            size={72}
+            color={COLORS.danger500}
+          />
+          <Text style={styles.title}>링크로 부스를 전환할 수 없습니다</Text>
+          <Text style={styles.message}>
+            관리자 PIN이 설정되지 않은 키오스크는 등록 링크로 부스를 바꿀 수
+            없습니다. 부스 로그인으로 다시 연결해주세요.
+          </Text>
+          <TouchableOpacity
+            style={styles.primaryButton}
+            onPress={handleCancel}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.primaryButtonText}>돌아가기</Text>
+          </TouchableOpacity>
+        </>
+      );
+    }
+
+    if (!confirmed) {
+      return (
+        <>
+          <Ionicons
+            name="swap-horizontal-outline"
+            size={72}
+            color={COLORS.primary500}
+          />
+          <Text style={styles.title}>
+            {authenticated
+              ? "새 부스로 전환할까요?"
+              : "이 서버로 키오스크를 등록할까요?"}
+          </Text>
+          <Text style={styles.message}>
+            {authenticated
+              ? "이 키오스크는 이미 부스에 연결되어 있습니다. 현재 부스와 장바구니는 이 기기에 보관되며 관리자 메뉴의 부스 전환에서 다시 선택할 수 있습니다."
+              : "등록 링크가 아래 서버를 사용하도록 지정했습니다. 부스에서 안내받은 서버가 맞는지 확인해주세요."}
+          </Text>
+          {environment && (
+            <View style={styles.environment}>
+              {environment.boothName && (
+                <Text style={styles.environmentText}>
+                  부스: {environment.boothName}
+                </Text>
+              )}
+              {isCustomApiUrl(environment.apiUrl) && (
+                <Text style={styles.environmentText}>
+                  서버: {environment.apiUrl}
+                </Text>
+              )}
+              {environment.wsUrl && (
+                <Text style={styles.environmentText}>
+                  결제 알림 서버: {environment.wsUrl}
+                </Text>
+              )}
+            </View>
+          )}
+          {paymentActive && (
+            <View style={styles.warning}>
+              <Ionicons name="warning" size={20} color={COLORS.warning600} />
+              <Text style={styles.warningText}>
+                진행 중인 결제가 있습니다. 전환하면 결제 화면이 종료됩니다.
+              </Text>
+            </View>
+          )}
+          <View style={styles.buttonRow}>
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={handleCancel}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.secondaryButtonText}>취소</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.primaryButton}
+              onPress={handleConfirm}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.primaryButtonText}>
+                {authenticated ? "전환하기" : "등록하기"}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </>
+      );
+    }
+
+    if (registerMutation.isError) {
+      return (
+        <>
+          <Ionicons name="alert-circle" size={72} color={COLORS.danger500} />
+          <Text style={styles.title}>키오스크 등록에 실패했습니다</Text>
+          <Text style={styles.message}>
+            {
+              toApiError(registerMutation.error, "키오스크 등록에 실패했습니다")
+                .message
+            }
+          </Text>
+          <View style={styles.buttonRow}>
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={handleCancel}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.secondaryButtonText}>돌아가기</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.primaryButton}
+              onPress={handleRetry}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.primaryButtonText}>다시 시도</Text>
+            </TouchableOpacity>
+          </View>
+        </>
+      );
+    }
+
+    return (
+      <>
+        <ActivityIndicator size="large" color={COLORS.primary500} />
+        <Text style={styles.message}>키오스크를 등록하는 중입니다</Text>
+      </>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>
+          <Text style={styles.brandText}>Flick</Text> Place
+        </Text>
+      </View>
+      <View style={styles.content}>{renderContent()}</View>
+
+      <StaffPinPad
+        visible={pinPadVisible}
+        onClose={() => setPinPadVisible(false)}
+        onSuccess={handlePinSuccess}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.white,
+  },
+  header: {
+    paddingVertical: 16,
+    alignItems: "center",
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.gray100,
+  },
+  headerTitle: {
+    fontSize: 22,
+    fontFamily: "Pretendard-Bold",
+    color: COLORS.gray900,
+  },
+  brandText: {
+    color: COLORS.primary500,
+  },
+  content: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 24,
+  },
+  title: {
+    fontSize: 24,
+    fontFamily: "Pretendard-Bold",
+    color: COLORS.gray900,
+    marginTop: 20,
+    textAlign: "center",
+  },
+  message: {
+    fontSize: 16,
+    fontFamily: "Pretendard-Medium",
+    color: COLORS.gray600,
+    textAlign: "center",
+    marginTop: 12,
+    marginBottom: 28,
+    maxWidth: 480,
+    lineHeight: 24,
+  },
+  environment: {
+    backgroundColor: COLORS.gray50,
+    borderWidth: 1,
+    borderColor: COLORS.gray200,
+    borderRadius: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    marginBottom: 20,
+    gap: 4,
+  },
+  environmentText: {
+    fontSize: 14,
+    fontFamily: "Pretendard-Medium",
+    color: COLORS.gray700,
+  },
+  warning: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: COLORS.warning50,
+    borderWidth: 1,
+    borderColor: COLORS.warning200,
+    borderRadius: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    marginBottom: 28,
+  },
+  warningText: {
+    marginLeft: 8,
+    fontSize: 14,
+    fontFamily: "Pretendard-Medium",
+    color: COLORS.warning800,
+  },
+  buttonRow: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  primaryButton: {
+    backgroundColor: COLORS.primary500,
+    paddingVertical: 16,
+    paddingHorizontal: 24,
+    borderRadius: 8,
+    minWidth: 160,
+    alignItems: "center",
+  },
+  primaryButtonText: {
+    color: COLORS.white,
+    fontSize: 16,
+    fontFamily: "Pretendard-SemiBold",
+  },
+  secondaryButton: {
+    backgroundColor: COLORS.white,
+    borderWidth: 1,
+    borderColor: COLORS.gray300,
+    paddingVertical: 16,
+    paddingHorizontal: 24,
+    borderRadius: 8,
+    minWidth: 160,
+    alignItems: "center",
+  },
+  secondaryButtonText: {
+    color: COLORS.gray700,
+    fontSize: 16,
+    fontFamily: "Pretendard-SemiBold",
+  },
+});
@@ -0,0 +1,125 @@
+import { COLORS } from "@/constants/colors";
+import { dismissSessionExpired } from "@/libs/session";
+import { useCartStore } from "@/stores/cart";
+import { usePaymentStore } from "@/stores/payment";
+import { Ionicons } from "@expo/vector-icons";
+import React, { useCallback, useEffect, useRef } from "react";
+import {
+  BackHandler,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+export default function SessionExpiredScreen(): React.ReactElement {
+  const cartCount = useCartStore((state) => state.items.length);
+  const paymentActive = usePaymentStore((state) => state.isActive);
+  const isMounted = useRef<boolean>(true);
+
+  useEffect(() => {
+    isMounted.current = true;
+
+    const backHandler = BackHandler.addEventListener(
+      "hardwareBackPress",
+      () => true
+    );
+
+    return () => {
+      isMounted.current = false;
+      backHandler.remove();
+    };
+  }, []);
+
+  const handleReconnect = useCallback(() => {
+    if (!isMounted.current) return;
+    dismissSessionExpired();
+  }, []);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.content}>
+        <Ionicons name="time-outline" size={80} color={COLORS.warning500} />
+        <Text style={styles.title}>키오스크 연결이 만료되었습니다</Text>
+        <Text style={styles.message}>
+          보안을 위해 연결이 종료되었습니다. 다시 로그인해주세요.
+        </Text>
+        {(cartCount > 0 || paymentActive) && (
+          <View style={styles.notice}>
+            <Ionicons
+              name="information-circle"
+              size={20}
+              color={COLORS.primary500}
+            />
+            <Text style={styles.noticeText}>
+              같은 키오스크로 다시 로그인하면 진행 중인 주문이 유지됩니다
+            </Text>
+          </View>
+        )}
+        <TouchableOpacity
+          style={styles.button}
+          onPress={handleReconnect}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.buttonText}>다시 로그인</Text>
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.white,
+  },
+  content: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 24,
+  },
+  title: {
+    fontSize: 26,
+    fontFamily: "Pretendard-Bold",
+    marginTop: 20,
+    color: COLORS.gray900,
+  },
+  message: {
+    fontSize: 16,
+    fontFamily: "Pretendard-Medium",
+    textAlign: "center",
+    marginTop: 10,
+    marginBottom: 24,
+    color: COLORS.gray600,
+  },
+  notice: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: COLORS.primary50,
+    borderRadius: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    marginBottom: 32,
+  },
+  noticeText: {
+    marginLeft: 8,
+    fontSize: 14,
+    fontFamily: "Pretendard-Medium",
+    color: COLORS.primary700,
+  },
+  button: {
+    backgroundColor: COLORS.primary500,
+    paddingVertical: 16,
+    paddingHorizontal: 32,
+    borderRadius: 8,
+    minWidth: 240,
+    alignItems: "center",
+  },
+  buttonText: {
+    color: COLORS.white,
+    fontSize: 16,
+    fontFamily: "Pretendard-SemiBold",
+  },
+});
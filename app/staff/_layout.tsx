@@ -0,0 +1,49 @@
+import { COLORS } from "@/constants/colors";
+import { useStaffStore } from "@/stores/staff";
+import { Redirect, Stack, usePathname } from "expo-router";
+import React, { useEffect } from "react";
+import { StyleSheet, View } from "react-native";
+
+export default function StaffLayout() {
+  const active = useStaffStore((state) => state.active);
+  const pathname = usePathname();
+
+  useEffect(() => {
+    useStaffStore.getState().touch();
+  }, [pathname]);
+
+  // Leaving the staff menu ends staff mode unless the operator went to edit
+  // products on the grid
+  useEffect(() => {
+    return () => {
+      const staff = useStaffStore.getState();
+      if (!staff.editingProducts) {
+        staff.exit();
+      }
+    };
+  }, []);
+
+  if (!active) {
+    return <Redirect href="/products" />;
+  }
+
+  return (
+    <View style={styles.container}>
+      <Stack
+        screenOptions={{
+          headerShown: false,
+          contentStyle: { backgroundColor: COLORS.gray50 },
+          animation: "slide_from_right",
+          animationDuration: 250,
+        }}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.gray50,
+  },
+});
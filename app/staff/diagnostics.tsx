@@ -0,0 +1,322 @@
+import { COLORS } from "@/constants/colors";
+import {
+  ConnectivityResult,
+  DiagnosticSection,
+  checkApiReachability,
+  checkWebSocket,
+  formatDiagnosticReport,
+} from "@/libs/diagnostics";
+import { decodeToken } from "@/libs/token";
+import { useAuthStore } from "@/stores/auth";
+import { useCartStore } from "@/stores/cart";
+import { useConfigStore } from "@/stores/config";
+import { useConnectionStore } from "@/stores/connection";
+import { getApiUrl, getWsUrl, useEnvironmentStore } from "@/stores/environment";
+import { usePaymentStore } from "@/stores/payment";
+import { useUpdateStore } from "@/stores/update";
+import { Ionicons } from "@expo/vector-icons";
+import { useCameraPermissions } from "expo-camera";
+import * as Clipboard from "expo-clipboard";
+import Constants from "expo-constants";
+import { router } from "expo-router";
+import * as Updates from "expo-updates";
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import {
+  ActivityIndicator,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import Toast from "react-native-toast-message";
+
+const formatDate = (value: number | string | null | undefined) =>
+  value ? new Date(value).toLocaleString() : "-";
+
+const formatConnectivity = (result: ConnectivityResult | null) => {
+  if (!result) return "검사 중";
+  if (!result.ok) return `실패 (${result.detail})`;
+  return `정상 ${result.latency}ms (${result.detail})`;
+};
+
+export default function DiagnosticsScreen(): React.ReactElement {
+  const token = useAuthStore((state) => state.token);
+  const refreshToken = useAuthStore((state) => state.refreshToken);
+  const expiresAt = useAuthStore((state) => state.expiresAt);
+  const update = useUpdateStore();
+  const { config, fetchedAt: configFetchedAt } = useConfigStore();
+  const environment = useEnvironmentStore((state) => state.environment);
+  const cartItems = useCartStore((state) => state.items);
+  const payment = usePaymentStore();
+  const wsStatus = useConnectionStore((state) => state.wsStatus);
+  const wsStatusChangedAt = useConnectionStore(
+    (state) => state.wsStatusChangedAt
+  );
+  const [cameraPermission] = useCameraPermissions();
+
+  const [apiResult, setApiResult] = useState<ConnectivityResult | null>(null);
+  const [wsResult, setWsResult] = useState<ConnectivityResult | null>(null);
+  const [checking, setChecking] = useState<boolean>(false);
+  const isMounted = useRef<boolean>(true);
+
+  const runChecks = useCallback(async () => {
+    setChecking(true);
+    setApiResult(null);
+    setWsResult(null);
+
+    const [api, ws] = await Promise.all([
+      checkApiReachability(),
+      checkWebSocket(usePaymentStore.getState().requestId),
+    ]);
+
+    if (isMounted.current) {
+      setApiResult(api);
+      setWsResult(ws);
+      setChecking(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    isMounted.current = true;
+    runChecks();
+
+    return () => {
+      isMounted.current = false;
+    };
+  }, [runChecks]);
+
+  const tokenPayload = token ? decodeToken(token) : null;
+
+  const sections: DiagnosticSection[] = [
+    {
+      title: "연결",
+      rows: [
+        { label: "API 서버", value: getApiUrl() },
+        { label: "API 응답", value: formatConnectivity(apiResult) },
+        { label: "WebSocket 서버", value: getWsUrl() },
+        { label: "WebSocket 연결", value: formatConnectivity(wsResult) },
+        {
+          label: "결제 소켓 상태",
+          value: `${wsStatus} (${formatDate(wsStatusChangedAt)})`,
+        },
+      ],
+    },
+    {
+      title: "인증",
+      rows: [
+        { label: "액세스 토큰", value: token ? "있음" : "없음" },
+        { label: "리프레시 토큰", value: refreshToken ? "있음" : "없음" },
+        { label: "키오스크 ID", value: tokenPayload?.sub ?? "-" },
+        { label: "만료 시각", value: formatDate(expiresAt) },
+        { label: "부스", value: environment?.boothName ?? "-" },
+      ],
+    },
+    {
+      title: "저장된 상태",
+      rows: [
+        {
+          label: "장바구니",
+          value:
+            cartItems.length > 0
+              ? cartItems
+                  .map((item) => `${item.name} x${item.quantity}`)
+                  .join(", ")
+              : "비어 있음",
+        },
+        { label: "주문 ID", value: payment.orderId?.toString() ?? "-" },
+        { label: "결제 요청 ID", value: payment.requestId?.toString() ?? "-" },
+        { label: "결제 수단", value: payment.requestMethod ?? "-" },
+        { label: "결제 상태", value: payment.status ?? "-" },
+        { label: "결제 진행 중", value: payment.isActive ? "예" : "아니오" },
+        { label: "남은 시간", value: `${payment.timer}초` },
+        { label: "결제 만료", value: formatDate(payment.expiresAt) },
+      ],
+    },
+    {
+      title: "앱",
+      rows: [
+        { label: "앱 버전", value: Constants.expoConfig?.version ?? "-" },
+        { label: "런타임 버전", value: Updates.runtimeVersion ?? "-" },
+        { label: "업데이트 ID", value: Updates.updateId ?? "내장 번들" },
+        { label: "업데이트 채널", value: Updates.channel ?? "-" },
+        {
+          label: "업데이트 생성일",
+          value: formatDate(Updates.createdAt?.getTime()),
+        },
+        { label: "업데이트 상태", value: update.status },
+        { label: "대기 중인 업데이트", value: update.pendingUpdateId ?? "-" },
+        { label: "업데이트 확인", value: formatDate(update.checkedAt) },
+        { label: "원격 설정 갱신", value: formatDate(configFetchedAt) },
+        { label: "원격 설정", value: JSON.stringify(config) },
+        {
+          label: "카메라 권한",
+          value: cameraPermission
+            ? cameraPermission.granted
+              ? "허용됨"
+              : cameraPermission.canAskAgain
+                ? "요청 필요"
+                : "거부됨"
+            : "확인 중",
+        },
+      ],
+    },
+  ];
+
+  const handleCopy = async () => {
+    await Clipboard.setStringAsync(formatDiagnosticReport(sections));
+    Toast.show({ type: "success", text1: "진단 보고서를 복사했습니다" });
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+          activeOpacity={0.7}
+        >
+          <Ionicons name="chevron-back" size={24} color={COLORS.gray900} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>진단</Text>
+        <View style={styles.headerActions}>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={runChecks}
+            disabled={checking}
+            activeOpacity={0.7}
+          >
+            {checking ? (
+              <ActivityIndicator size="small" color={COLORS.primary500} />
+            ) : (
+              <Ionicons name="refresh" size={18} color={COLORS.primary500} />
+            )}
+            <Text style={styles.actionButtonText}>다시 검사</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.primaryAction]}
+            onPress={handleCopy}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="copy-outline" size={18} color={COLORS.white} />
+            <Text style={styles.primaryActionText}>보고서 복사</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {sections.map(({ title, rows }) => (
+          <View key={title}>
+            <Text style={styles.sectionTitle}>{title}</Text>
+            <View style={styles.section}>
+              {rows.map(({ label, value }) => (
+                <View key={label} style={styles.row}>
+                  <Text style={styles.rowLabel}>{label}</Text>
+                  <Text style={styles.rowValue} selectable>
+                    {value}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          </View>
+        ))}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.gray50,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    height: 64,
+    backgroundColor: COLORS.white,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.gray100,
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 4,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 22,
+    fontFamily: "Pretendard-Bold",
+    color: COLORS.gray900,
+  },
+  headerActions: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  actionButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: COLORS.primary500,
+  },
+  actionButtonText: {
+    fontSize: 15,
+    fontFamily: "Pretendard-SemiBold",
+    color: COLORS.primary500,
+  },
+  primaryAction: {
+    backgroundColor: COLORS.primary500,
+  },
+  primaryActionText: {
+    fontSize: 15,
+    fontFamily: "Pretendard-SemiBold",
+    color: COLORS.white,
+  },
+  content: {
+    padding: 24,
+    maxWidth: 720,
+    width: "100%",
+    alignSelf: "center",
+  },
+  sectionTitle: {
+    fontSize: 15,
+    fontFamily: "Pretendard-SemiBold",
+    color: COLORS.gray500,
+    marginBottom: 8,
+    marginTop: 8,
+  },
+  section: {
+    backgroundColor: COLORS.white,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.gray200,
+    marginBottom: 24,
+    overflow: "hidden",
+  },
+  row: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.gray100,
+  },
+  rowLabel: {
+    fontSize: 15,
+    fontFamily: "Pretendard-Medium",
+    color: COLORS.gray600,
+  },
+  rowValue: {
+    flexShrink: 1,
+    marginLeft: 16,
+    textAlign: "right",
+    fontSize: 15,
+    fontFamily: "Pretendard-Regular",
+    color: COLORS.gray900,
+  },
+});
@@ -0,0 +1,446 @@
+import { COLORS } from "@/constants/colors";
+import { cancelOrder } from "@/libs/client";
+import { toApiError } from "@/libs/errors";
+import { deregisterKiosk } from "@/libs/kiosk";
+import { applyUpdate, checkForUpdates } from "@/libs/updates";
+import { useAuthStore } from "@/stores/auth";
+import { useCartStore } from "@/stores/cart";
+import { usePaymentStore } from "@/stores/payment";
+import { useShiftStore } from "@/stores/shift";
+import { useStaffStore } from "@/stores/staff";
+import { UpdateStatus, useUpdateStore } from "@/stores/update";
+import { Ionicons } from "@expo/vector-icons";
+import { useQueryClient } from "@tanstack/react-query";
+import { router } from "expo-router";
+import React, { useCallback, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import Toast from "react-native-toast-message";
+
+interface MenuItemProps {
+  icon: keyof typeof Ionicons.glyphMap;
+  title: string;
+  description: string;
+  onPress: () => void;
+  destructive?: boolean;
+  loading?: boolean;
+}
+
+function MenuItem({
+  icon,
+  title,
+  description,
+  onPress,
+  destructive = false,
+  loading = false,
+}: MenuItemProps): React.ReactElement {
+  const color = destructive ? COLORS.danger500 : COLORS.primary500;
+
+  return (
+    <TouchableOpacity
+      style={styles.menuItem}
+      onPress={onPress}
+      disabled={loading}
+      activeOpacity={0.7}
+    >
+      <View
+        style={[
+          styles.menuIcon,
+          { backgroundColor: destructive ? COLORS.danger50 : COLORS.primary50 },
+        ]}
+      >
+        {loading ? (
+          <ActivityIndicator size="small" color={color} />
+        ) : (
+          <Ionicons name={icon} size={22} color={color} />
+        )}
+      </View>
+      <View style={styles.menuText}>
+        <Text style={[styles.menuTitle, destructive && { color }]}>
+          {title}
+        </Text>
+        <Text style={styles.menuDescription}>{description}</Text>
+      </View>
+      <Ionicons name="chevron-forward" size={20} color={COLORS.gray400} />
+    </TouchableOpacity>
+  );
+}
+
+const describeUpdate = (
+  status: UpdateStatus,
+  checkedAt: number | null,
+  error: string | null
+) => {
+  switch (status) {
+    case "DISABLED":
+      return "이 빌드에서는 업데이트를 사용할 수 없습니다";
+    case "CHECKING":
+      return "업데이트를 확인하는 중입니다";
+    case "DOWNLOADING":
+      return "업데이트를 내려받는 중입니다";
+    case "READY":
+      return "새 업데이트가 준비되었습니다. 대기 화면에서 자동으로 적용됩니다";
+    case "ERROR":
+      return `업데이트 확인 실패: ${error ?? "알 수 없는 오류"}`;
+    case "UP_TO_DATE":
+      return `최신 버전입니다${
+        checkedAt ? ` · ${new Date(checkedAt).toLocaleTimeString()} 확인` : ""
+      }`;
+    default:
+      return "업데이트를 확인합니다";
+  }
+};
+
+export default function StaffScreen(): React.ReactElement {
+  const queryClient = useQueryClient();
+  const cartCount = useCartStore((state) => state.getTotalItems());
+  const shiftOpen = useShiftStore((state) => state.current !== null);
+  const profileCount = useAuthStore((state) => state.profiles.length);
+  const updateStatus = useUpdateStore((state) => state.status);
+  const updateCheckedAt = useUpdateStore((state) => state.checkedAt);
+  const updateError = useUpdateStore((state) => state.error);
+  const [resettingPayment, setResettingPayment] = useState<boolean>(false);
+  const [refreshing, setRefreshing] = useState<boolean>(false);
+
+  const handleExit = useCallback(() => {
+    useStaffStore.getState().exit();
+    router.replace("/products");
+  }, []);
+
+  const handleDisconnect = useCallback(() => {
+    Alert.alert(
+      "키오스크 연결 해제",
+      "이 키오스크의 연결을 해제하시겠습니까? 장바구니와 결제 정보가 모두 삭제됩니다.",
+      [
+        { text: "취소", style: "cancel" },
+        {
+          text: "연결 해제",
+          style: "destructive",
+          onPress: () => {
+            deregisterKiosk().then(
+              (route) => router.replace(route),
+              () => router.replace("/(auth)")
+            );
+          },
+        },
+      ]
+    );
+  }, []);
+
+  const handleClearCart = useCallback(() => {
+    Alert.alert("장바구니 초기화", "장바구니를 비우시겠습니까?", [
+      { text: "취소", style: "cancel" },
+      {
+        text: "초기화",
+        style: "destructive",
+        onPress: () => {
+          useCartStore.getState().clearCart();
+          Toast.show({ type: "success", text1: "장바구니를 비웠습니다" });
+        },
+      },
+    ]);
+  }, []);
+
+  const resetPayment = useCallback(async () => {
+    const { orderId: currentOrderId, status } = usePaymentStore.getState();
+    setResettingPayment(true);
+
+    try {
+      if (currentOrderId && status === "PENDING") {
+        await cancelOrder(currentOrderId);
+        useShiftStore
+          .getState()
+          .recordCancellation(
+            currentOrderId,
+            useCartStore.getState().getTotalAmount()
+          );
+      }
+      usePaymentStore.getState().resetPayment();
+      Toast.show({ type: "success", text1: "결제 정보를 초기화했습니다" });
+    } catch (error) {
+      Toast.show({
+        type: "error",
+        text1: "주문 취소에 실패했습니다",
+        text2: toApiError(error).message,
+      });
+    } finally {
+      setResettingPayment(false);
+    }
+  }, []);
+
+  const handleResetPayment = useCallback(() => {
+    Alert.alert(
+      "결제 초기화",
+      "진행 중인 결제를 초기화하시겠습니까? 대기 중인 주문은 취소됩니다.",
+      [
+        { text: "취소", style: "cancel" },
+        {
+          text: "초기화",
+          style: "destructive",
+          onPress: resetPayment,
+        },
+        {
+          text: "강제 초기화",
+          style: "destructive",
+          onPress: () => {
+            usePaymentStore.getState().resetPayment();
+            Toast.show({
+              type: "success",
+              text1: "결제 정보를 초기화했습니다",
+            });
+          },
+        },
+      ]
+    );
+  }, [resetPayment]);
+
+  const handleRefreshCatalog = useCallback(async () => {
+    setRefreshing(true);
+    try {
+      await queryClient.invalidateQueries({ queryKey: ["products"] });
+      Toast.show({ type: "success", text1: "상품 목록을 새로고침했습니다" });
+    } finally {
+      setRefreshing(false);
+    }
+  }, [queryClient]);
+
+  const handleUpdate = useCallback(() => {
+    if (updateStatus === "DISABLED") return;
+
+    if (updateStatus !== "READY") {
+      checkForUpdates();
+      return;
+    }
+
+    Alert.alert(
+      "업데이트 적용",
+      "앱을 다시 시작해 업데이트를 적용하시겠습니까? 장바구니와 진행 중인 결제는 유지됩니다.",
+      [
+        { text: "취소", style: "cancel" },
+        {
+          text: "적용",
+          onPress: () => {
+            applyUpdate().catch((error) =>
+              Toast.show({
+                type: "error",
+                text1: "업데이트를 적용하지 못했습니다",
+                text2: toApiError(error).message,
+              })
+            );
+          },
+        },
+      ]
+    );
+  }, [updateStatus]);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>관리자 메뉴</Text>
+        <TouchableOpacity
+          style={styles.exitButton}
+          onPress={handleExit}
+          activeOpacity={0.7}
+        >
+          <Ionicons name="log-out-outline" size={20} color={COLORS.gray700} />
+          <Text style={styles.exitButtonText}>관리자 모드 종료</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.sectionTitle}>유지보수</Text>
+        <View style={styles.section}>
+          <MenuItem
+            icon="swap-horizontal-outline"
+            title="판매 상태 변경"
+            description="상품 화면에서 상품을 길게 눌러 판매 중, 품절, 숨김을 전환합니다"
+            onPress={() => {
+              useStaffStore.getState().editProducts();
+              router.replace("/products");
+            }}
+          />
+          <MenuItem
+            icon="cube-outline"
+            title="재고 관리"
+            description="상품별 재고를 입고, 폐기, 정정합니다"
+            onPress={() => router.push("/staff/inventory")}
+          />
+          <MenuItem
+            icon="refresh"
+            title="상품 목록 새로고침"
+            description="서버에서 상품 정보를 다시 불러옵니다"
+            onPress={handleRefreshCatalog}
+            loading={refreshing}
+          />
+          <MenuItem
+            icon="cart-outline"
+            title="장바구니 초기화"
+            description={`담긴 상품 ${cartCount}개를 모두 삭제합니다`}
+            onPress={handleClearCart}
+          />
+          <MenuItem
+            icon="card-outline"
+            title="결제 초기화"
+            description="진행 중인 결제와 주문을 정리합니다"
+            onPress={handleResetPayment}
+            loading={resettingPayment}
+          />
+          <MenuItem
+            icon="storefront-outline"
+            title="부스 전환"
+            description={`이 기기에 저장된 부스 ${profileCount}개 중에서 전환하거나 부스를 추가합니다`}
+            onPress={() => router.push("/staff/profiles")}
+          />
+          <MenuItem
+            icon="power"
+            title="키오스크 연결 해제"
+            description="부스 연결을 해제하고 로그인 화면으로 이동합니다"
+            onPress={handleDisconnect}
+            destructive
+          />
+        </View>
+
+        <Text style={styles.sectionTitle}>점검</Text>
+        <View style={styles.section}>
+          <MenuItem
+            icon="calculator-outline"
+            title="영업 관리"
+            description={
+              shiftOpen
+                ? "영업 중입니다. 마감하고 정산 보고서를 확인합니다"
+                : "영업을 시작하거나 지난 정산 보고서를 확인합니다"
+            }
+            onPress={() => router.push("/staff/shift")}
+          />
+          <MenuItem
+            icon="receipt-outline"
+            title="주문 내역"
+            description="이 키오스크의 최근 주문을 조회하고 취소합니다"
+            onPress={() => router.push("/staff/orders")}
+          />
+          <MenuItem
+            icon="pulse"
+            title="진단"
+            description="서버 연결, 인증, 저장된 상태를 확인합니다"
+            onPress={() => router.push("/staff/diagnostics")}
+          />
+          <MenuItem
+            icon="cloud-download-outline"
+            title={updateStatus === "READY" ? "업데이트 적용" : "앱 업데이트"}
+            description={describeUpdate(
+              updateStatus,
+              updateCheckedAt,
+              updateError
+            )}
+            onPress={handleUpdate}
+            loading={
+              updateStatus === "CHECKING" || updateStatus === "DOWNLOADING"
+            }
+          />
+          <MenuItem
+            icon="document-text-outline"
+            title="로그"
+            description="최근 API, 결제, 소켓 기록을 확인하고 내보냅니다"
+            onPress={() => router.push("/staff/logs")}
+          />
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.gray50,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 24,
+    height: 64,
+    backgroundColor: COLORS.white,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.gray100,
+  },
+  headerTitle: {
+    fontSize: 22,
+    fontFamily: "Pretendard-Bold",
+    color: COLORS.gray900,
+  },
+  exitButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: COLORS.gray300,
+  },
+  exitButtonText: {
+    fontSize: 15,
+    fontFamily: "Pretendard-SemiBold",
+    color: COLORS.gray700,
+  },
+  content: {
+    padding: 24,
+    maxWidth: 720,
+    width: "100%",
+    alignSelf: "center",
+  },
+  sectionTitle: {
+    fontSize: 15,
+    fontFamily: "Pretendard-SemiBold",
+    color: COLORS.gray500,
+    marginBottom: 8,
+    marginTop: 8,
+  },
+  section: {
+    backgroundColor: COLORS.white,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.gray200,
+    marginBottom: 24,
+    overflow: "hidden",
+  },
+  menuItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 16,
+    paddingHorizontal: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.gray100,
+  },
+  menuIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: "center",
+    alignItems: "center",
+    marginRight: 14,
+  },
+  menuText: {
+    flex: 1,
+  },
+  menuTitle: {
+    fontSize: 17,
+    fontFamily: "Pretendard-SemiBold",
+    color: COLORS.gray900,
+  },
+  menuDescription: {
+    marginTop: 2,
+    fontSize: 14,
+    fontFamily: "Pretendard-Regular",
+    color: COLORS.gray500,
+  },
+});
@@ -0,0 +1,589 @@
+import { COLORS } from "@/constants/colors";
+import { getRemainingStock, isBundle } from "@/libs/catalog";
+import { adjustProductStock, fetchBoothProducts } from "@/libs/client";
+import { toApiError } from "@/libs/errors";
+import { Product, ProductStatus, StockAdjustmentReason } from "@/libs/schemas";
+import { Ionicons } from "@expo/vector-icons";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import * as Crypto from "expo-crypto";
+import { router } from "expo-router";
+import React, { useCallback, useState } from "react";
+import {
+  ActivityIndicator,
+  FlatList,
+  Modal,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import Toast from "react-native-toast-message";
+
+const STATUS_LABELS: Record<ProductStatus, { label: string; color: string }> = {
+  AVAILABLE: { label: "판매 중", color: COLORS.success600 },
+  SOLD_OUT: { label: "품절", color: COLORS.danger500 },
+  HIDDEN: { label: "숨김", color: COLORS.gray500 },
+};
+
+const REASONS: {
+  key: StockAdjustmentReason;
+  label: string;
+  valueLabel: string;
+}[] = [
+  { key: "RESTOCK", label: "입고", valueLabel: "입고 수량" },
+  { key: "WASTE", label: "폐기", valueLabel: "폐기 수량" },
+  { key: "CORRECTION", label: "정정", valueLabel: "실제 재고" },
+];
+
+const STEPS = [-10, -1, 1, 10];
+
+const getStockDelta = (
+  reason: StockAdjustmentReason,
+  value: number,
+  stock: number
+) => {
+  switch (reason) {
+    case "RESTOCK":
+      return value;
+    case "WASTE":
+      return -value;
+    case "CORRECTION":
+      return value - stock;
+  }
+};
+
+interface StockAdjustmentModalProps {
+  product: Product | null;
+  onClose: () => void;
+}
+
+function StockAdjustmentModal({
+  product,
+  onClose,
+}: StockAdjustmentModalProps): React.ReactElement {
+  const queryClient = useQueryClient();
+  const [reason, setReason] = useState<StockAdjustmentReason>("RESTOCK");
+  const [value, setValue] = useState<number>(0);
+  const [idempotencyKey, setIdempotencyKey] = useState<string>(() =>
+    Crypto.randomUUID()
+  );
+
+  const stock = product?.stock ?? 0;
+  const delta = getStockDelta(reason, value, stock);
+  const nextStock = stock + delta;
+  const valid = delta !== 0 && nextStock >= 0;
+
+  const resetForm = useCallback(
+    (nextReason: StockAdjustmentReason, currentStock: number) => {
+      setReason(nextReason);
+      setValue(nextReason === "CORRECTION" ? currentStock : 0);
+      setIdempotencyKey(Crypto.randomUUID());
+    },
+    []
+  );
+
+  // Each distinct request body needs its own idempotency key
+  const changeValue = useCallback((step: number) => {
+    setValue((current) => Math.max(0, current + step));
+    setIdempotencyKey(Crypto.randomUUID());
+  }, []);
+
+  const adjustMutation = useMutation({
+    mutationFn: async () => {
+      if (!product) throw new Error("상품 정보가 없습니다");
+      if (reason !== "CORRECTION") {
+        return adjustProductStock(
+          product.id,
+          { quantity: delta, reason },
+          idempotencyKey
+        );
+      }
+
+      // Sales since the list loaded would skew the correction, so measure it
+      // against the stock the server has right now
+      const current = (await fetchBoothProducts()).find(
+        ({ id }) => id === product.id
+      );
+      if (!current) throw new Error("상품 정보를 찾을 수 없습니다");
+      if (current.stock === value) return current;
+
+      return adjustProductStock(
+        product.id,
+        { quantity: value - current.stock, reason },
+        idempotencyKey
+      );
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData<Product[]>(["products", "all"], (products) =>
+        products?.map((item) => (item.id === updated.id ? updated : item))
+      );
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      Toast.show({
+        type: "success",
+        text1: `${updated.name} 재고를 ${updated.stock}개로 변경했습니다`,
+      });
+      resetForm("RESTOCK", updated.stock);
+      onClose();
+    },
+    onError: (error) => {
+      Toast.show({
+        type: "error",
+        text1: "재고를 변경하지 못했습니다",
+        text2: toApiError(error, "재고 변경 중 오류가 발생했습니다").message,
+      });
+    },
+  });
+
+  const handleClose = useCallback(() => {
+    if (adjustMutation.isPending) return;
+    resetForm("RESTOCK", stock);
+    onClose();
+  }, [adjustMutation.isPending, resetForm, stock, onClose]);
+
+  const valueLabel =
+    REASONS.find(({ key }) => key === reason)?.valueLabel ?? "";
+
+  return (
+    <Modal
+      visible={!!product}
+      transparent
+      animationType="fade"
+      onRequestClose={handleClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <View style={styles.sheetHeader}>
+            <Text style={styles.sheetTitle} numberOfLines={1}>
+              {product?.name}
+            </Text>
+            <TouchableOpacity onPress={handleClose} hitSlop={12}>
+              <Ionicons name="close" size={24} color={COLORS.gray500} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.reasons}>
+            {REASONS.map(({ key, label }) => (
+              <TouchableOpacity
+                key={key}
+                style={[styles.reason, reason === key && styles.reasonActive]}
+                onPress={() => resetForm(key, stock)}
+                activeOpacity={0.7}
+              >
+                <Text
+                  style={[
+                    styles.reasonText,
+                    reason === key && styles.reasonTextActive,
+                  ]}
+                >
+                  {label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.valueLabel}>{valueLabel}</Text>
+          <View style={styles.stepper}>
+            {STEPS.slice(0, 2).map((step) => (
+              <TouchableOpacity
+                key={step}
+                style={styles.stepButton}
+                onPress={() => changeValue(step)}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.stepText}>{step}</Text>
+              </TouchableOpacity>
+            ))}
+            <Text style={styles.value}>{value}</Text>
+            {STEPS.slice(2).map((step) => (
+              <TouchableOpacity
+                key={step}
+                style={styles.stepButton}
+                onPress={() => changeValue(step)}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.stepText}>+{step}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.preview}>
+            <Text style={styles.previewText}>현재 {stock}개</Text>
+            <Ionicons name="arrow-forward" size={18} color={COLORS.gray500} />
+            <Text
+              style={[
+                styles.previewText,
+                styles.previewNext,
+                nextStock < 0 && styles.previewInvalid,
+              ]}
+            >
+              {nextStock}개
+            </Text>
+          </View>
+          {nextStock < 0 && (
+            <Text style={styles.errorText}>
+              현재 재고보다 많이 폐기할 수 없습니다
+            </Text>
+          )}
+
+          <TouchableOpacity
+            style={[
+              styles.submitButton,
+              (!valid || adjustMutation.isPending) && styles.buttonDisabled,
+            ]}
+            onPress={() => adjustMutation.mutate()}
+            disabled={!valid || adjustMutation.isPending}
+            activeOpacity={0.7}
+          >
+            {adjustMutation.isPending ? (
+              <ActivityIndicator color={COLORS.white} size="small" />
+            ) : (
+              <Text style={styles.submitButtonText}>재고 변경</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+export default function InventoryScreen(): React.ReactElement {
+  const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
+
+  const {
+    data: products = [],
+    isLoading,
+    isError,
+    error,
+    refetch,
+    isRefetching,
+  } = useQuery({
+    queryKey: ["products", "all"],
+    queryFn: fetchBoothProducts,
+  });
+
+  // A bundle has no stock of its own, so it shows what its components allow
+  const renderItem = useCallback(
+    ({ item }: { item: Product }) => {
+      const status = STATUS_LABELS[item.status];
+      const bundle = isBundle(item);
+      const stock = bundle ? getRemainingStock(item, products) : item.stock;
+
+      return (
+        <View style={styles.product}>
+          <View style={styles.productInfo}>
+            <Text style={styles.productName} numberOfLines={1}>
+              {item.name}
+            </Text>
+            <Text style={[styles.productStatus, { color: status.color }]}>
+              {bundle ? `${status.label} · 구성품 재고 기준` : status.label}
+            </Text>
+          </View>
+          <Text style={[styles.productStock, stock === 0 && styles.emptyStock]}>
+            {stock}개
+          </Text>
+          <TouchableOpacity
+            style={[styles.adjustButton, bundle && styles.adjustButtonDisabled]}
+            onPress={() => setSelectedProduct(item)}
+            disabled={bundle}
+            activeOpacity={0.7}
+          >
+            <Text
+              style={[
+                styles.adjustButtonText,
+                bundle && styles.adjustButtonTextDisabled,
+              ]}
+            >
+              조정
+            </Text>
+          </TouchableOpacity>
+        </View>
+      );
+    },
+    [products]
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+          activeOpacity={0.7}
+        >
+          <Ionicons name="chevron-back" size={24} color={COLORS.gray900} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>재고 관리</Text>
+      </View>
+
+      {isLoading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={COLORS.primary500} />
+        </View>
+      ) : isError ? (
+        <View style={styles.centered}>
+          <Text style={styles.emptyText}>
+            {toApiError(error, "상품 목록을 불러오지 못했습니다").message}
+          </Text>
+          <TouchableOpacity
+            style={styles.retryButton}
+            onPress={() => refetch()}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.retryButtonText}>다시 시도</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <FlatList
+          data={products}
+          keyExtractor={(item) => item.id.toString()}
+          renderItem={renderItem}
+          contentContainerStyle={styles.list}
+          refreshControl={
+            <RefreshControl
+              refreshing={isRefetching}
+              onRefresh={refetch}
+              colors={[COLORS.primary500]}
+              tintColor={COLORS.primary500}
+            />
+          }
+          ListEmptyComponent={
+            <Text style={styles.emptyText}>등록된 상품이 없습니다</Text>
+          }
+        />
+      )}
+
+      <StockAdjustmentModal
+        product={selectedProduct}
+        onClose={() => setSelectedProduct(null)}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.gray50,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    height: 64,
+    backgroundColor: COLORS.white,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.gray100,
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 4,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 22,
+    fontFamily: "Pretendard-Bold",
+    color: COLORS.gray900,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  list: {
+    padding: 24,
+  },
+  product: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: COLORS.white,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.gray200,
+    paddingVertical: 14,
+    paddingHorizontal: 16,
+    marginBottom: 10,
+  },
+  productInfo: {
+    flex: 1,
+  },
+  productName: {
+    fontSize: 17,
+    fontFamily: "Pretendard-SemiBold",
+    color: COLORS.gray900,
+  },
+  productStatus: {
+    marginTop: 2,
+    fontSize: 13,
+    fontFamily: "Pretendard-Medium",
+  },
+  productStock: {
+    fontSize: 20,
+    fontFamily: "Pretendard-Bold",
+    color: COLORS.gray900,
+    marginHorizontal: 16,
+  },
+  emptyStock: {
+    color: COLORS.danger500,
+  },
+  adjustButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: COLORS.primary500,
+  },
+  adjustButtonText: {
+    fontSize: 15,
+    fontFamily: "Pretendard-SemiBold",
+    color: COLORS.primary500,
+  },
+  adjustButtonDisabled: {
+    borderColor: COLORS.gray200,
+  },
+  adjustButtonTextDisabled: {
+    color: COLORS.gray400,
+  },
+  emptyText: {
+    textAlign: "center",
+    marginTop: 24,
+    fontSize: 15,
+    fontFamily: "Pretendard-Medium",
+    color: COLORS.gray500,
+  },
+  retryButton: {
+    marginTop: 16,
+    backgroundColor: COLORS.primary500,
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: 8,
+  },
+  retryButtonText: {
+    fontSize: 15,
+    fontFamily: "Pretendard-SemiBold",
+    color: COLORS.white,
+  },
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(15, 23, 42, 0.5)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  sheet: {
+    width: 440,
+    backgroundColor: COLORS.white,
+    borderRadius: 16,
+    padding: 24,
+  },
+  sheetHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 20,
+  },
+  sheetTitle: {
+    flex: 1,
+    fontSize: 20,
+    fontFamily: "Pretendard-Bold",
+    color: COLORS.gray900,
+  },
+  reasons: {
+    flexDirection: "row",
+    gap: 8,
+    marginBottom: 20,
+  },
+  reason: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: COLORS.gray200,
+  },
+  reasonActive: {
+    backgroundColor: COLORS.primary500,
+    borderColor: COLORS.primary500,
+  },
+  reasonText: {
+    fontSize: 15,
+    fontFamily: "Pretendard-SemiBold",
+    color: COLORS.gray700,
+  },
+  reasonTextActive: {
+    color: COLORS.white,
+  },
+  valueLabel: {
+    fontSize: 14,
+    fontFamily: "Pretendard-Medium",
+    color: COLORS.gray500,
+    marginBottom: 8,
+  },
+  stepper: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  stepButton: {
+    width: 56,
+    height: 48,
+    borderRadius: 8,
+    backgroundColor: COLORS.gray100,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  stepText: {
+    fontSize: 16,
+    fontFamily: "Pretendard-SemiBold",
+    color: COLORS.gray800,
+  },
+  value: {
+    flex: 1,
+    textAlign: "center",
+    fontSize: 28,
+    fontFamily: "Pretendard-Bold",
+    color: COLORS.gray900,
+  },
+  preview: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 10,
+    marginTop: 20,
+  },
+  previewText: {
+    fontSize: 16,
+    fontFamily: "Pretendard-Medium",
+    color: COLORS.gray600,
+  },
+  previewNext: {
+    fontFamily: "Pretendard-Bold",
+    color: COLORS.gray900,
+  },
+  previewInvalid: {
+    color: COLORS.danger500,
+  },
+  errorText: {
+    marginTop: 8,
+    textAlign: "center",
+    fontSize: 14,
+    fontFamily: "Pretendard-Medium",
+    color: COLORS.danger500,
+  },
+  submitButton: {
+    marginTop: 24,
+    height: 52,
+    borderRadius: 8,
+    backgroundColor: COLORS.primary500,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  buttonDisabled: {
+    backgroundColor: COLORS.gray300,
+  },
+  submitButtonText: {
+    fontSize: 16,
+    fontFamily: "Pretendard-SemiBold",
+    color: COLORS.white,
+  },
+});
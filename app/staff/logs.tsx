@@ -0,0 +1,310 @@
+import { COLORS } from "@/constants/colors";
+import {
+  LogEntry,
+  LogLevel,
+  clearLogs,
+  exportLogs,
+  formatLogs,
+  getLogs,
+  subscribeLogs,
+} from "@/libs/logger";
+import { Ionicons } from "@expo/vector-icons";
+import { router } from "expo-router";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  Alert,
+  FlatList,
+  Platform,
+  Share,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import Toast from "react-native-toast-message";
+
+type LogFilter = "all" | "warn" | "error";
+
+const FILTERS: { key: LogFilter; label: string }[] = [
+  { key: "all", label: "전체" },
+  { key: "warn", label: "경고 이상" },
+  { key: "error", label: "오류" },
+];
+
+const FILTER_LEVELS: Record<LogFilter, LogLevel[]> = {
+  all: ["debug", "info", "warn", "error"],
+  warn: ["warn", "error"],
+  error: ["error"],
+};
+
+const LEVEL_COLORS: Record<LogLevel, string> = {
+  debug: COLORS.gray400,
+  info: COLORS.primary500,
+  warn: COLORS.warning600,
+  error: COLORS.danger500,
+};
+
+export default function LogsScreen(): React.ReactElement {
+  const [logs, setLogs] = useState<LogEntry[]>(() => getLogs());
+  const [filter, setFilter] = useState<LogFilter>("all");
+
+  useEffect(() => subscribeLogs(setLogs), []);
+
+  const visibleLogs = useMemo(
+    () =>
+      logs
+        .filter((entry) => FILTER_LEVELS[filter].includes(entry.level))
+        .reverse(),
+    [logs, filter]
+  );
+
+  const handleExport = useCallback(async () => {
+    try {
+      const uri = await exportLogs();
+      await Share.share(
+        Platform.OS === "ios"
+          ? { url: uri }
+          : { title: "Flick Place 로그", message: formatLogs() }
+      );
+    } catch (error) {
+      Toast.show({
+        type: "error",
+        text1: "로그를 내보내지 못했습니다",
+        text2: error instanceof Error ? error.message : undefined,
+      });
+    }
+  }, []);
+
+  const handleClear = useCallback(() => {
+    Alert.alert("로그 삭제", "저장된 로그를 모두 삭제하시겠습니까?", [
+      { text: "취소", style: "cancel" },
+      { text: "삭제", style: "destructive", onPress: () => clearLogs() },
+    ]);
+  }, []);
+
+  const renderItem = useCallback(
+    ({ item }: { item: LogEntry }) => (
+      <View style={styles.entry}>
+        <View style={styles.entryHeader}>
+          <Text style={[styles.level, { color: LEVEL_COLORS[item.level] }]}>
+            {item.level.toUpperCase()}
+          </Text>
+          <Text style={styles.category}>{item.category}</Text>
+          <Text style={styles.timestamp}>
+            {new Date(item.timestamp).toLocaleString()}
+          </Text>
+        </View>
+        <Text style={styles.message}>{item.message}</Text>
+        {item.data !== undefined && (
+          <Text style={styles.data} numberOfLines={4} selectable>
+            {JSON.stringify(item.data)}
+          </Text>
+        )}
+      </View>
+    ),
+    []
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+          activeOpacity={0.7}
+        >
+          <Ionicons name="chevron-back" size={24} color={COLORS.gray900} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>로그</Text>
+        <View style={styles.headerActions}>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={handleClear}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="trash-outline" size={18} color={COLORS.danger500} />
+            <Text style={styles.clearButtonText}>삭제</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.primaryAction]}
+            onPress={handleExport}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="share-outline" size={18} color={COLORS.white} />
+            <Text style={styles.primaryActionText}>내보내기</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <View style={styles.filters}>
+        {FILTERS.map(({ key, label }) => (
+          <TouchableOpacity
+            key={key}
+            style={[styles.filter, filter === key && styles.filterActive]}
+            onPress={() => setFilter(key)}
+            activeOpacity={0.7}
+          >
+            <Text
+              style={[
+                styles.filterText,
+                filter === key && styles.filterTextActive,
+              ]}
+            >
+              {label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+        <Text style={styles.count}>{visibleLogs.length}건</Text>
+      </View>
+
+      <FlatList
+        data={visibleLogs}
+        keyExtractor={(item) => item.id.toString()}
+        renderItem={renderItem}
+        contentContainerStyle={styles.list}
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>기록된 로그가 없습니다</Text>
+        }
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.gray50,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    height: 64,
+    backgroundColor: COLORS.white,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.gray100,
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 4,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 22,
+    fontFamily: "Pretendard-Bold",
+    color: COLORS.gray900,
+  },
+  headerActions: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  actionButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: COLORS.gray300,
+  },
+  clearButtonText: {
+    fontSize: 15,
+    fontFamily: "Pretendard-SemiBold",
+    color: COLORS.danger500,
+  },
+  primaryAction: {
+    backgroundColor: COLORS.primary500,
+    borderColor: COLORS.primary500,
+  },
+  primaryActionText: {
+    fontSize: 15,
+    fontFamily: "Pretendard-SemiBold",
+    color: COLORS.white,
+  },
+  filters: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+  },
+  filter: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    backgroundColor: COLORS.white,
+    borderWidth: 1,
+    borderColor: COLORS.gray200,
+  },
+  filterActive: {
+    backgroundColor: COLORS.primary500,
+    borderColor: COLORS.primary500,
+  },
+  filterText: {
+    fontSize: 14,
+    fontFamily: "Pretendard-Medium",
+    color: COLORS.gray700,
+  },
+  filterTextActive: {
+    color: COLORS.white,
+  },
+  count: {
+    marginLeft: "auto",
+    fontSize: 14,
+    fontFamily: "Pretendard-Medium",
+    color: COLORS.gray500,
+  },
+  list: {
+    paddingHorizontal: 24,
+    paddingBottom: 24,
+  },
+  entry: {
+    backgroundColor: COLORS.white,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: COLORS.gray200,
+    padding: 12,
+    marginBottom: 8,
+  },
+  entryHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  level: {
+    fontSize: 12,
+    fontFamily: "Pretendard-Bold",
+  },
+  category: {
+    fontSize: 12,
+    fontFamily: "Pretendard-SemiBold",
+    color: COLORS.gray600,
+  },
+  timestamp: {
+    marginLeft: "auto",
+    fontSize: 12,
+    fontFamily: "Pretendard-Regular",
+    color: COLORS.gray500,
+  },
+  message: {
+    marginTop: 4,
+    fontSize: 15,
+    fontFamily: "Pretendard-Medium",
+    color: COLORS.gray900,
+  },
+  data: {
+    marginTop: 4,
+    fontSize: 13,
+    fontFamily: Platform.OS === "ios" ? "Menlo" : "monospace",
+    color: COLORS.gray600,
+  },
+  emptyText: {
+    textAlign: "center",
+    marginTop: 48,
+    fontSize: 15,
+    fontFamily: "Pretendard-Medium",
+    color: COLORS.gray500,
+  },
+});
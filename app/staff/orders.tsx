@@ -0,0 +1,379 @@
+import { COLORS } from "@/constants/colors";
+import { cancelOrder, fetchKioskOrders } from "@/libs/client";
+import { toApiError } from "@/libs/errors";
+import { OrderDetail, PaymentRequestMethod } from "@/libs/schemas";
+import { useOrderHistoryStore } from "@/stores/order-history";
+import { useShiftStore } from "@/stores/shift";
+import { Ionicons } from "@expo/vector-icons";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { router } from "expo-router";
+import React, { useCallback } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import Toast from "react-native-toast-message";
+
+const ORDER_STATUS_LABELS: Record<string, { label: string; color: string }> = {
+  PENDING: { label: "결제 대기", color: COLORS.warning600 },
+  PAID: { label: "결제 완료", color: COLORS.success600 },
+  CANCELLED: { label: "취소됨", color: COLORS.gray500 },
+};
+
+const PAYMENT_METHOD_LABELS: Record<PaymentRequestMethod, string> = {
+  QR_CODE: "QR 결제",
+  STUDENT_ID: "학번 결제",
+};
+
+export default function OrdersScreen(): React.ReactElement {
+  const queryClient = useQueryClient();
+  const orders = useOrderHistoryStore((state) => state.orders);
+  const syncedAt = useOrderHistoryStore((state) => state.syncedAt);
+
+  const { isFetching, isError, refetch } = useQuery({
+    queryKey: ["orders"],
+    queryFn: async () => {
+      const fetched = await fetchKioskOrders();
+      useOrderHistoryStore.getState().mergeOrders(fetched);
+      return fetched;
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (order: OrderDetail) => cancelOrder(order.id),
+    onSuccess: (_, { id: orderId, totalAmount }) => {
+      useOrderHistoryStore.getState().updateOrderStatus(orderId, "CANCELLED");
+      useShiftStore.getState().recordCancellation(orderId, totalAmount);
+      queryClient.invalidateQueries({ queryKey: ["orders"] });
+      Toast.show({ type: "success", text1: `주문 #${orderId}을 취소했습니다` });
+    },
+    onError: (error) => {
+      Toast.show({
+        type: "error",
+        text1: "주문을 취소하지 못했습니다",
+        text2: toApiError(error, "주문 취소 중 오류가 발생했습니다").message,
+      });
+    },
+  });
+
+  const handleCancel = useCallback(
+    (order: OrderDetail) => {
+      Alert.alert(
+        "주문 취소",
+        `주문 #${order.id} (${order.totalAmount.toLocaleString()}원)을 취소하시겠습니까?`,
+        [
+          { text: "닫기", style: "cancel" },
+          {
+            text: "주문 취소",
+            style: "destructive",
+            onPress: () => cancelMutation.mutate(order),
+          },
+        ]
+      );
+    },
+    [cancelMutation]
+  );
+
+  const handleReprint = useCallback((order: OrderDetail) => {
+    router.push({
+      pathname: "/payment-complete",
+      params: { orderId: order.id.toString() },
+    });
+  }, []);
+
+  const renderItem = useCallback(
+    ({ item }: { item: OrderDetail }) => {
+      const status = ORDER_STATUS_LABELS[item.status] ?? {
+        label: item.status,
+        color: COLORS.gray600,
+      };
+      const cancelling =
+        cancelMutation.isPending && cancelMutation.variables?.id === item.id;
+
+      return (
+        <View style={styles.order}>
+          <View style={styles.orderHeader}>
+            <Text style={styles.orderId}>#{item.id}</Text>
+            <View style={[styles.statusBadge, { borderColor: status.color }]}>
+              <Text style={[styles.statusText, { color: status.color }]}>
+                {status.label}
+              </Text>
+            </View>
+            <Text style={styles.orderTime}>
+              {new Date(item.createdAt).toLocaleString()}
+            </Text>
+          </View>
+
+          <Text style={styles.orderItems} numberOfLines={2}>
+            {item.items.length > 0
+              ? item.items
+                  .map(({ productName, quantity, options }) => {
+                    const optionText = options
+                      .map(({ name }) => name)
+                      .join("/");
+                    return optionText
+                      ? `${productName}(${optionText}) x${quantity}`
+                      : `${productName} x${quantity}`;
+                  })
+                  .join(", ")
+              : "상품 정보 없음"}
+          </Text>
+
+          <View style={styles.orderFooter}>
+            <Text style={styles.orderAmount}>
+              {item.totalAmount.toLocaleString()}원
+            </Text>
+            <Text style={styles.orderMethod}>
+              {item.paymentMethod
+                ? PAYMENT_METHOD_LABELS[item.paymentMethod]
+                : "-"}
+            </Text>
+            <View style={styles.orderActions}>
+              {item.status === "PENDING" && (
+                <TouchableOpacity
+                  style={styles.cancelButton}
+                  onPress={() => handleCancel(item)}
+                  disabled={cancelling}
+                  activeOpacity={0.7}
+                >
+                  {cancelling ? (
+                    <ActivityIndicator size="small" color={COLORS.danger500} />
+                  ) : (
+                    <Text style={styles.cancelButtonText}>주문 취소</Text>
+                  )}
+                </TouchableOpacity>
+              )}
+              {item.status === "PAID" && (
+                <TouchableOpacity
+                  style={styles.reprintButton}
+                  onPress={() => handleReprint(item)}
+                  activeOpacity={0.7}
+                >
+                  <Ionicons
+                    name="receipt-outline"
+                    size={16}
+                    color={COLORS.primary500}
+                  />
+                  <Text style={styles.reprintButtonText}>영수증 보기</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+        </View>
+      );
+    },
+    [
+      cancelMutation.isPending,
+      cancelMutation.variables,
+      handleCancel,
+      handleReprint,
+    ]
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+          activeOpacity={0.7}
+        >
+          <Ionicons name="chevron-back" size={24} color={COLORS.gray900} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>주문 내역</Text>
+        <Text style={styles.syncText}>
+          {syncedAt
+            ? `${new Date(syncedAt).toLocaleTimeString()} 동기화`
+            : "동기화 전"}
+        </Text>
+      </View>
+
+      {isError && (
+        <View style={styles.offlineBanner}>
+          <Ionicons
+            name="cloud-offline-outline"
+            size={18}
+            color={COLORS.warning700}
+          />
+          <Text style={styles.offlineText}>
+            서버에서 주문을 불러오지 못했습니다. 저장된 내역을 표시합니다.
+          </Text>
+        </View>
+      )}
+
+      <FlatList
+        data={orders}
+        keyExtractor={(item) => item.id.toString()}
+        renderItem={renderItem}
+        contentContainerStyle={styles.list}
+        refreshControl={
+          <RefreshControl
+            refreshing={isFetching}
+            onRefresh={refetch}
+            colors={[COLORS.primary500]}
+            tintColor={COLORS.primary500}
+          />
+        }
+        ListEmptyComponent={
+          isFetching ? null : (
+            <Text style={styles.emptyText}>주문 내역이 없습니다</Text>
+          )
+        }
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.gray50,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    height: 64,
+    backgroundColor: COLORS.white,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.gray100,
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 4,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 22,
+    fontFamily: "Pretendard-Bold",
+    color: COLORS.gray900,
+  },
+  syncText: {
+    fontSize: 14,
+    fontFamily: "Pretendard-Medium",
+    color: COLORS.gray500,
+    marginRight: 8,
+  },
+  offlineBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: COLORS.warning50,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.warning200,
+    paddingVertical: 10,
+    paddingHorizontal: 24,
+  },
+  offlineText: {
+    fontSize: 14,
+    fontFamily: "Pretendard-Medium",
+    color: COLORS.warning800,
+  },
+  list: {
+    padding: 24,
+  },
+  order: {
+    backgroundColor: COLORS.white,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.gray200,
+    padding: 16,
+    marginBottom: 12,
+  },
+  orderHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+  },
+  orderId: {
+    fontSize: 18,
+    fontFamily: "Pretendard-Bold",
+    color: COLORS.gray900,
+  },
+  statusBadge: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingVertical: 2,
+    paddingHorizontal: 8,
+  },
+  statusText: {
+    fontSize: 13,
+    fontFamily: "Pretendard-SemiBold",
+  },
+  orderTime: {
+    marginLeft: "auto",
+    fontSize: 14,
+    fontFamily: "Pretendard-Regular",
+    color: COLORS.gray500,
+  },
+  orderItems: {
+    marginTop: 8,
+    fontSize: 15,
+    fontFamily: "Pretendard-Regular",
+    color: COLORS.gray700,
+  },
+  orderFooter: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 12,
+    gap: 12,
+  },
+  orderAmount: {
+    fontSize: 17,
+    fontFamily: "Pretendard-Bold",
+    color: COLORS.gray900,
+  },
+  orderMethod: {
+    fontSize: 14,
+    fontFamily: "Pretendard-Medium",
+    color: COLORS.gray500,
+  },
+  orderActions: {
+    flexDirection: "row",
+    marginLeft: "auto",
+    gap: 8,
+  },
+  cancelButton: {
+    minWidth: 88,
+    alignItems: "center",
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: COLORS.danger500,
+  },
+  cancelButtonText: {
+    fontSize: 14,
+    fontFamily: "Pretendard-SemiBold",
+    color: COLORS.danger500,
+  },
+  reprintButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: COLORS.primary500,
+  },
+  reprintButtonText: {
+    fontSize: 14,
+    fontFamily: "Pretendard-SemiBold",
+    color: COLORS.primary500,
+  },
+  emptyText: {
+    textAlign: "center",
+    marginTop: 48,
+    fontSize: 15,
+    fontFamily: "Pretendard-Medium",
+    color: COLORS.gray500,
+  },
+});
@@ -0,0 +1,335 @@
+import { COLORS } from "@/constants/colors";
+import { toApiError } from "@/libs/errors";
+import {
+  beginAddBoothProfile,
+  removeBoothProfile,
+  switchBoothProfile,
+} from "@/libs/kiosk";
+import { logger } from "@/libs/logger";
+import { BoothProfile, useAuthStore } from "@/stores/auth";
+import { useCartStore } from "@/stores/cart";
+import { isCustomApiUrl } from "@/stores/environment";
+import { Ionicons } from "@expo/vector-icons";
+import { router } from "expo-router";
+import React, { useCallback, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import Toast from "react-native-toast-message";
+
+export default function StaffProfilesScreen(): React.ReactElement {
+  const profiles = useAuthStore((state) => state.profiles);
+  const activeProfileId = useAuthStore((state) => state.activeProfileId);
+  const [switchingId, setSwitchingId] = useState<string | null>(null);
+
+  const sortedProfiles = useMemo(
+    () => [...profiles].sort((a, b) => b.lastUsedAt - a.lastUsedAt),
+    [profiles]
+  );
+
+  const switchProfile = useCallback(async (profile: BoothProfile) => {
+    setSwitchingId(profile.id);
+
+    try {
+      const target = await switchBoothProfile(profile.id);
+      Toast.show({
+        type: "success",
+        text1: `${profile.name}(으)로 전환했습니다`,
+      });
+      router.replace(target);
+    } catch (error) {
+      Toast.show({
+        type: "error",
+        text1: "부스 전환에 실패했습니다",
+        text2: toApiError(error).message,
+      });
+    } finally {
+      setSwitchingId(null);
+    }
+  }, []);
+
+  const handleSwitch = useCallback(
+    (profile: BoothProfile) => {
+      if (!profile.token) {
+        Alert.alert(
+          "다시 로그인 필요",
+          `${profile.name}의 로그인이 만료되었습니다. 부스 계정으로 다시 로그인해주세요.`,
+          [
+            { text: "취소", style: "cancel" },
+            {
+              text: "로그인",
+              onPress: () => {
+                beginAddBoothProfile();
+                router.replace("/(auth)");
+              },
+            },
+          ]
+        );
+        return;
+      }
+
+      const cartCount = useCartStore.getState().getTotalItems();
+
+      Alert.alert(
+        "부스 전환",
+        `${profile.name}(으)로 전환하시겠습니까?${
+          cartCount > 0
+            ? `\n현재 장바구니의 상품 ${cartCount}개는 이 부스에 보관됩니다.`
+            : ""
+        }\n전환하면 관리자 모드가 종료됩니다.`,
+        [
+          { text: "취소", style: "cancel" },
+          { text: "전환", onPress: () => switchProfile(profile) },
+        ]
+      );
+    },
+    [switchProfile]
+  );
+
+  const handleRemove = useCallback((profile: BoothProfile) => {
+    Alert.alert(
+      "저장된 부스 삭제",
+      `${profile.name}의 로그인 정보와 보관된 장바구니를 이 기기에서 삭제하시겠습니까?`,
+      [
+        { text: "취소", style: "cancel" },
+        {
+          text: "삭제",
+          style: "destructive",
+          onPress: () => {
+            removeBoothProfile(profile.id)
+              .then(() =>
+                Toast.show({ type: "success", text1: "부스를 삭제했습니다" })
+              )
+              .catch((error) => {
+                logger.error("auth", "Failed to remove booth profile", error);
+                Toast.show({
+                  type: "error",
+                  text1: "부스를 삭제하지 못했습니다",
+                  text2: toApiError(error).message,
+                });
+              });
+          },
+        },
+      ]
+    );
+  }, []);
+
+  const handleAdd = useCallback(() => {
+    Alert.alert(
+      "부스 추가",
+      "다른 부스로 로그인합니다. 현재 부스의 장바구니와 로그인 정보는 그대로 보관됩니다.",
+      [
+        { text: "취소", style: "cancel" },
+        {
+          text: "로그인",
+          onPress: () => {
+            beginAddBoothProfile();
+            router.replace("/(auth)");
+          },
+        },
+      ]
+    );
+  }, []);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+          activeOpacity={0.7}
+        >
+          <Ionicons name="chevron-back" size={24} color={COLORS.gray900} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>부스 전환</Text>
+        <TouchableOpacity
+          style={styles.actionButton}
+          onPress={handleAdd}
+          disabled={switchingId !== null}
+          activeOpacity={0.7}
+        >
+          <Ionicons name="add" size={18} color={COLORS.primary500} />
+          <Text style={styles.actionButtonText}>부스 추가</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.sectionTitle}>저장된 부스 {profiles.length}개</Text>
+        <View style={styles.section}>
+          {sortedProfiles.map((profile) => {
+            const active = profile.id === activeProfileId;
+            const apiUrl = profile.environment?.apiUrl;
+
+            return (
+              <TouchableOpacity
+                key={profile.id}
+                style={styles.profile}
+                onPress={() => handleSwitch(profile)}
+                disabled={active || switchingId !== null}
+                activeOpacity={0.7}
+              >
+                <View style={[styles.profileIcon, active && styles.activeIcon]}>
+                  <Ionicons
+                    name="storefront-outline"
+                    size={22}
+                    color={active ? COLORS.white : COLORS.primary500}
+                  />
+                </View>
+                <View style={styles.profileText}>
+                  <Text style={styles.profileName} numberOfLines={1}>
+                    {profile.name}
+                  </Text>
+                  <Text style={styles.profileDescription} numberOfLines={1}>
+                    {isCustomApiUrl(apiUrl)
+                      ? apiUrl?.replace(/^https?:\/\//, "")
+                      : "기본 서버"}
+                    {" · "}
+                    {profile.token
+                      ? `${new Date(profile.lastUsedAt).toLocaleString()} 사용`
+                      : "다시 로그인 필요"}
+                  </Text>
+                </View>
+                {active ? (
+                  <View style={styles.activeBadge}>
+                    <Text style={styles.activeBadgeText}>사용 중</Text>
+                  </View>
+                ) : switchingId === profile.id ? (
+                  <ActivityIndicator size="small" color={COLORS.primary500} />
+                ) : (
+                  <TouchableOpacity
+                    style={styles.removeButton}
+                    onPress={() => handleRemove(profile)}
+                    disabled={switchingId !== null}
+                    activeOpacity={0.7}
+                  >
+                    <Ionicons
+                      name="trash-outline"
+                      size={20}
+                      color={COLORS.danger500}
+                    />
+                  </TouchableOpacity>
+                )}
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.gray50,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    height: 64,
+    backgroundColor: COLORS.white,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.gray100,
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 4,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 22,
+    fontFamily: "Pretendard-Bold",
+    color: COLORS.gray900,
+  },
+  actionButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: COLORS.primary500,
+  },
+  actionButtonText: {
+    fontSize: 15,
+    fontFamily: "Pretendard-SemiBold",
+    color: COLORS.primary500,
+  },
+  content: {
+    padding: 24,
+    maxWidth: 720,
+    width: "100%",
+    alignSelf: "center",
+  },
+  sectionTitle: {
+    fontSize: 15,
+    fontFamily: "Pretendard-SemiBold",
+    color: COLORS.gray500,
+    marginBottom: 8,
+  },
+  section: {
+    backgroundColor: COLORS.white,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.gray200,
+    overflow: "hidden",
+  },
+  profile: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 16,
+    paddingHorizontal: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.gray100,
+  },
+  profileIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: "center",
+    alignItems: "center",
+    marginRight: 14,
+    backgroundColor: COLORS.primary50,
+  },
+  activeIcon: {
+    backgroundColor: COLORS.primary500,
+  },
+  profileText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  profileName: {
+    fontSize: 17,
+    fontFamily: "Pretendard-SemiBold",
+    color: COLORS.gray900,
+  },
+  profileDescription: {
+    marginTop: 2,
+    fontSize: 14,
+    fontFamily: "Pretendard-Regular",
+    color: COLORS.gray500,
+  },
+  activeBadge: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 12,
+    backgroundColor: COLORS.primary50,
+  },
+  activeBadgeText: {
+    fontSize: 13,
+    fontFamily: "Pretendard-SemiBold",
+    color: COLORS.primary600,
+  },
+  removeButton: {
+    padding: 8,
+  },
+});
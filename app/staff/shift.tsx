@@ -0,0 +1,437 @@
+import { COLORS } from "@/constants/colors";
+import {
+  PAYMENT_METHOD_NAMES,
+  ShiftReport,
+  buildShiftReport,
+  exportShiftReport,
+  formatShiftReportCsv,
+} from "@/libs/shift-report";
+import { PaymentRequestMethod } from "@/libs/schemas";
+import { useShiftStore } from "@/stores/shift";
+import { Ionicons } from "@expo/vector-icons";
+import { router } from "expo-router";
+import React, { useCallback, useMemo, useState } from "react";
+import {
+  Alert,
+  Platform,
+  ScrollView,
+  Share,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import Toast from "react-native-toast-message";
+
+const formatDateTime = (value: string | null) =>
+  value ? new Date(value).toLocaleString() : "-";
+
+function ShiftReportView({
+  report,
+}: {
+  report: ShiftReport;
+}): React.ReactElement {
+  return (
+    <>
+      <View style={styles.summary}>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryLabel}>매출</Text>
+          <Text style={styles.summaryValue}>
+            {report.sales.amount.toLocaleString()}원
+          </Text>
+        </View>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryLabel}>결제 완료</Text>
+          <Text style={styles.summaryValue}>{report.sales.count}건</Text>
+        </View>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryLabel}>취소</Text>
+          <Text style={styles.summaryValue}>
+            {report.cancellations.count}건
+          </Text>
+        </View>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryLabel}>만료</Text>
+          <Text style={styles.summaryValue}>{report.expirations.count}건</Text>
+        </View>
+      </View>
+
+      <Text style={styles.sectionTitle}>결제 수단별</Text>
+      <View style={styles.section}>
+        {(Object.keys(report.byMethod) as PaymentRequestMethod[]).map(
+          (method) => (
+            <View key={method} style={styles.row}>
+              <Text style={styles.rowLabel}>
+                {PAYMENT_METHOD_NAMES[method]}
+              </Text>
+              <Text style={styles.rowCount}>
+                {report.byMethod[method].count}건
+              </Text>
+              <Text style={styles.rowAmount}>
+                {report.byMethod[method].amount.toLocaleString()}원
+              </Text>
+            </View>
+          )
+        )}
+      </View>
+
+      <Text style={styles.sectionTitle}>상품별</Text>
+      <View style={styles.section}>
+        {report.byProduct.length === 0 ? (
+          <Text style={styles.emptyText}>판매된 상품이 없습니다</Text>
+        ) : (
+          report.byProduct.map(
+            ({ productId, productName, quantity, amount }) => (
+              <View key={productId} style={styles.row}>
+                <Text style={styles.rowLabel}>{productName}</Text>
+                <Text style={styles.rowCount}>{quantity}개</Text>
+                <Text style={styles.rowAmount}>
+                  {amount.toLocaleString()}원
+                </Text>
+              </View>
+            )
+          )
+        )}
+      </View>
+
+      <Text style={styles.sectionTitle}>미결제</Text>
+      <View style={styles.section}>
+        <View style={styles.row}>
+          <Text style={styles.rowLabel}>취소된 주문</Text>
+          <Text style={styles.rowCount}>{report.cancellations.count}건</Text>
+          <Text style={styles.rowAmount}>
+            {report.cancellations.amount.toLocaleString()}원
+          </Text>
+        </View>
+        <View style={styles.row}>
+          <Text style={styles.rowLabel}>만료된 결제</Text>
+          <Text style={styles.rowCount}>{report.expirations.count}건</Text>
+          <Text style={styles.rowAmount}>
+            {report.expirations.amount.toLocaleString()}원
+          </Text>
+        </View>
+      </View>
+    </>
+  );
+}
+
+export default function ShiftScreen(): React.ReactElement {
+  const current = useShiftStore((state) => state.current);
+  const reports = useShiftStore((state) => state.reports);
+  const [selectedShiftId, setSelectedShiftId] = useState<string | null>(null);
+
+  const liveReport = useMemo(
+    () => (current ? buildShiftReport(current) : null),
+    [current]
+  );
+  const report =
+    liveReport ??
+    reports.find(({ shiftId }) => shiftId === selectedShiftId) ??
+    reports[0] ??
+    null;
+
+  const handleOpen = useCallback(() => {
+    useShiftStore.getState().openShift();
+    setSelectedShiftId(null);
+    Toast.show({ type: "success", text1: "영업을 시작했습니다" });
+  }, []);
+
+  const handleClose = useCallback(() => {
+    Alert.alert(
+      "영업 마감",
+      "현재 영업을 마감하고 정산 보고서를 생성하시겠습니까?",
+      [
+        { text: "취소", style: "cancel" },
+        {
+          text: "마감",
+          style: "destructive",
+          onPress: () => {
+            const closed = useShiftStore.getState().closeShift();
+            setSelectedShiftId(closed?.shiftId ?? null);
+          },
+        },
+      ]
+    );
+  }, []);
+
+  const handleExport = useCallback(async () => {
+    if (!report) return;
+
+    try {
+      const uri = await exportShiftReport(report);
+      await Share.share(
+        Platform.OS === "ios"
+          ? { url: uri }
+          : {
+              title: "Flick Place 정산 보고서",
+              message: formatShiftReportCsv(report),
+            }
+      );
+    } catch (error) {
+      Toast.show({
+        type: "error",
+        text1: "보고서를 내보내지 못했습니다",
+        text2: error instanceof Error ? error.message : undefined,
+      });
+    }
+  }, [report]);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+          activeOpacity={0.7}
+        >
+          <Ionicons name="chevron-back" size={24} color={COLORS.gray900} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>영업 관리</Text>
+        <View style={styles.headerActions}>
+          {report && (
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={handleExport}
+              activeOpacity={0.7}
+            >
+              <Ionicons
+                name="share-outline"
+                size={18}
+                color={COLORS.primary500}
+              />
+              <Text style={styles.actionButtonText}>내보내기</Text>
+            </TouchableOpacity>
+          )}
+          {current ? (
+            <TouchableOpacity
+              style={[styles.actionButton, styles.dangerAction]}
+              onPress={handleClose}
+              activeOpacity={0.7}
+            >
+              <Ionicons
+                name="stop-circle-outline"
+                size={18}
+                color={COLORS.white}
+              />
+              <Text style={styles.primaryActionText}>영업 마감</Text>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity
+              style={[styles.actionButton, styles.primaryAction]}
+              onPress={handleOpen}
+              activeOpacity={0.7}
+            >
+              <Ionicons
+                name="play-circle-outline"
+                size={18}
+                color={COLORS.white}
+              />
+              <Text style={styles.primaryActionText}>영업 시작</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.status}>
+          <Ionicons
+            name={current ? "radio-button-on" : "radio-button-off"}
+            size={18}
+            color={current ? COLORS.success500 : COLORS.gray400}
+          />
+          <Text style={styles.statusText}>
+            {current
+              ? `영업 중 · ${formatDateTime(current.openedAt)} 시작`
+              : report
+                ? `마감된 영업 · ${formatDateTime(report.openedAt)} ~ ${formatDateTime(report.closedAt)}`
+                : "진행 중인 영업이 없습니다. 영업을 시작하면 결제 내역이 집계됩니다."}
+          </Text>
+        </View>
+
+        {report && <ShiftReportView report={report} />}
+
+        {reports.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>지난 정산</Text>
+            <View style={styles.section}>
+              {reports.map((closed) => (
+                <TouchableOpacity
+                  key={closed.shiftId}
+                  style={[
+                    styles.row,
+                    !current &&
+                      closed.shiftId === report?.shiftId &&
+                      styles.rowSelected,
+                  ]}
+                  onPress={() => setSelectedShiftId(closed.shiftId)}
+                  disabled={!!current}
+                  activeOpacity={0.7}
+                >
+                  <Text style={styles.rowLabel}>
+                    {formatDateTime(closed.closedAt)}
+                  </Text>
+                  <Text style={styles.rowCount}>{closed.sales.count}건</Text>
+                  <Text style={styles.rowAmount}>
+                    {closed.sales.amount.toLocaleString()}원
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.gray50,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    height: 64,
+    backgroundColor: COLORS.white,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.gray100,
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 4,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 22,
+    fontFamily: "Pretendard-Bold",
+    color: COLORS.gray900,
+  },
+  headerActions: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  actionButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: COLORS.primary500,
+  },
+  actionButtonText: {
+    fontSize: 15,
+    fontFamily: "Pretendard-SemiBold",
+    color: COLORS.primary500,
+  },
+  primaryAction: {
+    backgroundColor: COLORS.primary500,
+  },
+  dangerAction: {
+    backgroundColor: COLORS.danger500,
+    borderColor: COLORS.danger500,
+  },
+  primaryActionText: {
+    fontSize: 15,
+    fontFamily: "Pretendard-SemiBold",
+    color: COLORS.white,
+  },
+  content: {
+    padding: 24,
+    maxWidth: 720,
+    width: "100%",
+    alignSelf: "center",
+  },
+  status: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 16,
+  },
+  statusText: {
+    flex: 1,
+    fontSize: 15,
+    fontFamily: "Pretendard-Medium",
+    color: COLORS.gray700,
+  },
+  summary: {
+    flexDirection: "row",
+    backgroundColor: COLORS.white,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.gray200,
+    paddingVertical: 20,
+    marginBottom: 24,
+  },
+  summaryItem: {
+    flex: 1,
+    alignItems: "center",
+  },
+  summaryLabel: {
+    fontSize: 14,
+    fontFamily: "Pretendard-Medium",
+    color: COLORS.gray500,
+    marginBottom: 6,
+  },
+  summaryValue: {
+    fontSize: 22,
+    fontFamily: "Pretendard-Bold",
+    color: COLORS.gray900,
+  },
+  sectionTitle: {
+    fontSize: 15,
+    fontFamily: "Pretendard-SemiBold",
+    color: COLORS.gray500,
+    marginBottom: 8,
+    marginTop: 8,
+  },
+  section: {
+    backgroundColor: COLORS.white,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.gray200,
+    marginBottom: 24,
+    overflow: "hidden",
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.gray100,
+  },
+  rowSelected: {
+    backgroundColor: COLORS.primary50,
+  },
+  rowLabel: {
+    flex: 1,
+    fontSize: 15,
+    fontFamily: "Pretendard-Medium",
+    color: COLORS.gray800,
+  },
+  rowCount: {
+    width: 80,
+    textAlign: "right",
+    fontSize: 15,
+    fontFamily: "Pretendard-Regular",
+    color: COLORS.gray600,
+  },
+  rowAmount: {
+    width: 120,
+    textAlign: "right",
+    fontSize: 15,
+    fontFamily: "Pretendard-SemiBold",
+    color: COLORS.gray900,
+  },
+  emptyText: {
+    padding: 16,
+    fontSize: 15,
+    fontFamily: "Pretendard-Regular",
+    color: COLORS.gray500,
+  },
+});
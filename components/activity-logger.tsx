@@ -0,0 +1,52 @@
+import { logger } from "@/libs/logger";
+import { useAuthStore } from "@/stores/auth";
+import { usePaymentStore } from "@/stores/payment";
+import { usePathname } from "expo-router";
+import { useEffect } from "react";
+
+export default function ActivityLogger(): null {
+  const pathname = usePathname();
+
+  useEffect(() => {
+    logger.info("navigation", pathname);
+  }, [pathname]);
+
+  useEffect(() => {
+    const unsubscribePayment = usePaymentStore.subscribe((state, previous) => {
+      if (
+        state.status === previous.status &&
+        state.orderId === previous.orderId &&
+        state.requestId === previous.requestId
+      ) {
+        return;
+      }
+
+      logger.info(
+        "payment",
+        `${previous.status ?? "NONE"} -> ${state.status ?? "NONE"}`,
+        {
+          orderId: state.orderId,
+          requestId: state.requestId,
+          method: state.requestMethod,
+          timer: state.timer,
+        }
+      );
+    });
+
+    const unsubscribeAuth = useAuthStore.subscribe((state, previous) => {
+      if (state.authenticated !== previous.authenticated) {
+        logger.info(
+          "auth",
+          state.authenticated ? "Kiosk signed in" : "Kiosk signed out"
+        );
+      }
+    });
+
+    return () => {
+      unsubscribePayment();
+      unsubscribeAuth();
+    };
+  }, []);
+
+  return null;
+}
@@ -0,0 +1,93 @@
+import React from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { COLORS } from "@/constants/colors";
+import { isCustomApiUrl, useEnvironmentStore } from "@/stores/environment";
+
+interface EnvironmentBadgeProps {
+  onLongPress?: () => void;
+}
+
+export default function EnvironmentBadge({
+  onLongPress,
+}: EnvironmentBadgeProps): React.ReactElement | null {
+  const environment = useEnvironmentStore((state) => state.environment);
+
+  if (!environment) return null;
+
+  const custom = isCustomApiUrl(environment.apiUrl);
+  const host = environment.apiUrl?.replace(/^https?:\/\//, "");
+
+  if (!custom && !environment.boothName) return null;
+
+  return (
+    <TouchableOpacity
+      style={styles.container}
+      onLongPress={onLongPress}
+      disabled={!onLongPress}
+      delayLongPress={1500}
+      activeOpacity={1}
+    >
+      {environment.boothName && (
+        <View style={styles.booth}>
+          <Ionicons
+            name="storefront-outline"
+            size={14}
+            color={COLORS.gray600}
+          />
+          <Text style={styles.boothText} numberOfLines={1}>
+            {environment.boothName}
+          </Text>
+        </View>
+      )}
+      {custom && (
+        <View style={styles.server}>
+          <Ionicons name="server-outline" size={14} color={COLORS.warning700} />
+          <Text style={styles.serverText} numberOfLines={1}>
+            {host}
+          </Text>
+        </View>
+      )}
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  booth: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: COLORS.gray100,
+    borderRadius: 12,
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    maxWidth: 200,
+  },
+  boothText: {
+    marginLeft: 4,
+    fontSize: 13,
+    fontFamily: "Pretendard-Medium",
+    color: COLORS.gray700,
+  },
+  server: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: COLORS.warning50,
+    borderWidth: 1,
+    borderColor: COLORS.warning200,
+    borderRadius: 12,
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    maxWidth: 260,
+  },
+  serverText: {
+    marginLeft: 4,
+    fontSize: 13,
+    fontFamily: "Pretendard-Medium",
+    color: COLORS.warning800,
+  },
+});
@@ -0,0 +1,13 @@
+import { startConfigSync } from "@/libs/config";
+import { useAuthStore } from "@/stores/auth";
+import { useEffect } from "react";
+
+export default function KioskConfigSync(): null {
+  const activeProfileId = useAuthStore((state) => state.activeProfileId);
+
+  useEffect(() => {
+    return startConfigSync();
+  }, [activeProfileId]);
+
+  return null;
+}
@@ -0,0 +1,15 @@
+import { startControlChannel } from "@/libs/control";
+import { useAuthStore } from "@/stores/auth";
+import { useEffect } from "react";
+
+export default function KioskControl(): null {
+  const activeProfileId = useAuthStore((state) => state.activeProfileId);
+  const token = useAuthStore((state) => state.token);
+
+  // Reconnect as the active booth whenever the profile or its token changes
+  useEffect(() => {
+    return startControlChannel();
+  }, [activeProfileId, token]);
+
+  return null;
+}
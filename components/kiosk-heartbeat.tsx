@@ -0,0 +1,18 @@
+import { startHeartbeat } from "@/libs/heartbeat";
+import { usePathname } from "expo-router";
+import { useEffect, useRef } from "react";
+
+export default function KioskHeartbeat(): null {
+  const pathname = usePathname();
+  const pathnameRef = useRef<string>(pathname);
+
+  useEffect(() => {
+    pathnameRef.current = pathname;
+  }, [pathname]);
+
+  useEffect(() => {
+    return startHeartbeat({ getRoute: () => pathnameRef.current });
+  }, []);
+
+  return null;
+}
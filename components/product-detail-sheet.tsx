@@ -0,0 +1,492 @@
+import React, { useState } from "react";
+import {
+  Image,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { COLORS } from "@/constants/colors";
+import { Product, ProductOption, ProductOptionGroup } from "@/libs/schemas";
+import { CartItemOption } from "@/stores/cart";
+
+interface ProductDetailSheetProps {
+  product: Product | null;
+  stock: number;
+  remaining: number;
+  onAdd: (
+    product: Product,
+    quantity: number,
+    options: CartItemOption[]
+  ) => void;
+  onClose: () => void;
+}
+
+const getDefaultSelection = (product: Product | null) =>
+  Object.fromEntries(
+    (product?.optionGroups ?? [])
+      .filter((group) => group.required && !group.multiple)
+      .filter((group) => group.options.length > 0)
+      .map((group) => [group.id, [group.options[0].id]])
+  ) as Record<number, number[]>;
+
+const describeGroup = (group: ProductOptionGroup) => {
+  const rule = group.multiple
+    ? group.maxSelections
+      ? `최대 ${group.maxSelections}개`
+      : "여러 개 선택"
+    : "1개 선택";
+  return `${group.required ? "필수" : "선택"} · ${rule}`;
+};
+
+export default function ProductDetailSheet({
+  product,
+  stock,
+  remaining,
+  onAdd,
+  onClose,
+}: ProductDetailSheetProps): React.ReactElement {
+  const [quantity, setQuantity] = useState<number>(1);
+  const [selection, setSelection] = useState<Record<number, number[]>>({});
+  const [openedId, setOpenedId] = useState<number | null>(null);
+
+  // Reset only when a different product is opened, not on refetches
+  if ((product?.id ?? null) !== openedId) {
+    setOpenedId(product?.id ?? null);
+    setQuantity(1);
+    setSelection(getDefaultSelection(product));
+  }
+
+  const optionGroups = product?.optionGroups ?? [];
+  const bundleItems = product?.bundleItems ?? [];
+  const selectedOptions: CartItemOption[] = optionGroups.flatMap((group) =>
+    group.options
+      .filter((option) => selection[group.id]?.includes(option.id))
+      .map((option) => ({
+        groupId: group.id,
+        optionId: option.id,
+        name: option.name,
+        priceDelta: option.priceDelta,
+      }))
+  );
+  const missingGroup = optionGroups.find(
+    (group) => group.required && !selection[group.id]?.length
+  );
+  const unitPrice = selectedOptions.reduce(
+    (price, option) => price + option.priceDelta,
+    product?.price ?? 0
+  );
+
+  const orderable =
+    !!product && product.status === "AVAILABLE" && remaining > 0;
+
+  // Stock sold elsewhere while the sheet is open lowers the limit
+  if (remaining > 0 && quantity > remaining) {
+    setQuantity(remaining);
+  }
+
+  const handleOptionPress = (
+    group: ProductOptionGroup,
+    option: ProductOption
+  ) => {
+    setSelection((current) => {
+      const selected = current[group.id] ?? [];
+
+      if (selected.includes(option.id)) {
+        if (group.required && selected.length === 1) return current;
+        return {
+          ...current,
+          [group.id]: selected.filter((id) => id !== option.id),
+        };
+      }
+      if (!group.multiple) {
+        return { ...current, [group.id]: [option.id] };
+      }
+      if (group.maxSelections && selected.length >= group.maxSelections) {
+        return current;
+      }
+      return { ...current, [group.id]: [...selected, option.id] };
+    });
+  };
+
+  const renderOptionGroup = (group: ProductOptionGroup) => (
+    <View key={group.id} style={styles.optionGroup}>
+      <View style={styles.optionGroupHeader}>
+        <Text style={styles.optionGroupName}>{group.name}</Text>
+        <Text
+          style={[
+            styles.optionGroupRule,
+            group.required && styles.optionGroupRequired,
+          ]}
+        >
+          {describeGroup(group)}
+        </Text>
+      </View>
+      <View style={styles.optionList}>
+        {group.options.map((option) => {
+          const selected = !!selection[group.id]?.includes(option.id);
+
+          return (
+            <TouchableOpacity
+              key={option.id}
+              style={[styles.option, selected && styles.optionSelected]}
+              onPress={() => handleOptionPress(group, option)}
+              activeOpacity={0.7}
+            >
+              <Ionicons
+                name={
+                  group.multiple
+                    ? selected
+                      ? "checkbox"
+                      : "square-outline"
+                    : selected
+                      ? "radio-button-on"
+                      : "radio-button-off"
+                }
+                size={20}
+                color={selected ? COLORS.primary600 : COLORS.gray400}
+              />
+              <Text style={styles.optionName}>{option.name}</Text>
+              {option.priceDelta !== 0 && (
+                <Text style={styles.optionPrice}>
+                  {option.priceDelta > 0 ? "+" : ""}
+                  {option.priceDelta.toLocaleString()}원
+                </Text>
+              )}
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+
+  const renderStock = () => {
+    if (!product) return null;
+    if (product.status === "HIDDEN") return "숨김 처리된 상품";
+    if (product.status === "SOLD_OUT" || stock <= 0) return "품절";
+    if (remaining < stock) {
+      return `재고 ${stock}개 · ${remaining}개 더 담을 수 있음`;
+    }
+    return `재고 ${stock}개`;
+  };
+
+  return (
+    <Modal
+      visible={!!product}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <TouchableOpacity
+          style={styles.backdrop}
+          onPress={onClose}
+          activeOpacity={1}
+        />
+        <View style={styles.container}>
+          <Image
+            source={
+              product?.imageUrl
+                ? { uri: product.imageUrl }
+                : require("@/assets/images/placeholder.png")
+            }
+            style={styles.image}
+            resizeMode="cover"
+          />
+          <TouchableOpacity
+            style={styles.closeButton}
+            onPress={onClose}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="close" size={24} color={COLORS.white} />
+          </TouchableOpacity>
+
+          <View style={styles.content}>
+            <View style={styles.header}>
+              <Text style={styles.name}>{product?.name}</Text>
+              <Text style={styles.price}>{unitPrice.toLocaleString()}원</Text>
+            </View>
+            <Text style={[styles.stock, !orderable && styles.stockUnavailable]}>
+              {renderStock()}
+            </Text>
+
+            {product?.description ||
+            bundleItems.length > 0 ||
+            optionGroups.length > 0 ? (
+              <ScrollView style={styles.detailScroll}>
+                {bundleItems.length > 0 && (
+                  <View style={styles.bundle}>
+                    <Text style={styles.bundleTitle}>세트 구성</Text>
+                    {bundleItems.map(({ productId, productName, quantity }) => (
+                      <View key={productId} style={styles.bundleRow}>
+                        <Text style={styles.bundleName}>{productName}</Text>
+                        <Text style={styles.bundleQuantity}>{quantity}개</Text>
+                      </View>
+                    ))}
+                  </View>
+                )}
+                {product?.description ? (
+                  <Text style={styles.description}>{product.description}</Text>
+                ) : null}
+                {optionGroups.map(renderOptionGroup)}
+              </ScrollView>
+            ) : null}
+
+            <View style={styles.footer}>
+              <View style={styles.stepper}>
+                <TouchableOpacity
+                  style={styles.stepperButton}
+                  onPress={() => setQuantity((value) => value - 1)}
+                  disabled={!orderable || quantity <= 1}
+                  activeOpacity={0.7}
+                >
+                  <Ionicons
+                    name="remove"
+                    size={24}
+                    color={
+                      orderable && quantity > 1
+                        ? COLORS.gray700
+                        : COLORS.gray300
+                    }
+                  />
+                </TouchableOpacity>
+                <Text style={styles.quantity}>{quantity}</Text>
+                <TouchableOpacity
+                  style={styles.stepperButton}
+                  onPress={() => setQuantity((value) => value + 1)}
+                  disabled={!orderable || quantity >= remaining}
+                  activeOpacity={0.7}
+                >
+                  <Ionicons
+                    name="add"
+                    size={24}
+                    color={
+                      orderable && quantity < remaining
+                        ? COLORS.gray700
+                        : COLORS.gray300
+                    }
+                  />
+                </TouchableOpacity>
+              </View>
+
+              <TouchableOpacity
+                style={[
+                  styles.addButton,
+                  (!orderable || missingGroup) && styles.addDisabled,
+                ]}
+                onPress={() =>
+                  product && onAdd(product, quantity, selectedOptions)
+                }
+                disabled={!orderable || !!missingGroup}
+                activeOpacity={0.8}
+              >
+                <Text style={styles.addText}>
+                  {!orderable
+                    ? "주문할 수 없는 상품입니다"
+                    : missingGroup
+                      ? `${missingGroup.name}을(를) 선택해주세요`
+                      : `${(unitPrice * quantity).toLocaleString()}원 담기`}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(15, 23, 42, 0.5)",
+    justifyContent: "flex-end",
+  },
+  backdrop: {
+    flex: 1,
+  },
+  container: {
+    maxHeight: "85%",
+    backgroundColor: COLORS.white,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    overflow: "hidden",
+  },
+  image: {
+    width: "100%",
+    height: 360,
+    backgroundColor: COLORS.gray100,
+  },
+  closeButton: {
+    position: "absolute",
+    top: 16,
+    right: 16,
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: "rgba(0,0,0,0.4)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  content: {
+    padding: 24,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-start",
+    gap: 16,
+  },
+  name: {
+    flex: 1,
+    fontSize: 24,
+    fontFamily: "Pretendard-Bold",
+    color: COLORS.gray900,
+  },
+  price: {
+    fontSize: 24,
+    fontFamily: "Pretendard-Bold",
+    color: COLORS.primary600,
+  },
+  stock: {
+    marginTop: 6,
+    fontSize: 15,
+    fontFamily: "Pretendard-Medium",
+    color: COLORS.gray500,
+  },
+  stockUnavailable: {
+    color: COLORS.danger500,
+  },
+  detailScroll: {
+    marginTop: 16,
+    maxHeight: 320,
+  },
+  bundle: {
+    marginBottom: 16,
+    padding: 14,
+    borderRadius: 10,
+    backgroundColor: COLORS.gray50,
+    gap: 6,
+  },
+  bundleTitle: {
+    fontSize: 15,
+    fontFamily: "Pretendard-SemiBold",
+    color: COLORS.gray900,
+  },
+  bundleRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  bundleName: {
+    fontSize: 15,
+    fontFamily: "Pretendard-Regular",
+    color: COLORS.gray700,
+  },
+  bundleQuantity: {
+    fontSize: 15,
+    fontFamily: "Pretendard-Medium",
+    color: COLORS.gray500,
+  },
+  description: {
+    fontSize: 17,
+    lineHeight: 26,
+    fontFamily: "Pretendard-Regular",
+    color: COLORS.gray700,
+  },
+  optionGroup: {
+    marginTop: 16,
+  },
+  optionGroupHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 10,
+  },
+  optionGroupName: {
+    fontSize: 17,
+    fontFamily: "Pretendard-SemiBold",
+    color: COLORS.gray900,
+  },
+  optionGroupRule: {
+    fontSize: 13,
+    fontFamily: "Pretendard-Medium",
+    color: COLORS.gray500,
+  },
+  optionGroupRequired: {
+    color: COLORS.primary600,
+  },
+  optionList: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  option: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 14,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: COLORS.gray200,
+  },
+  optionSelected: {
+    borderColor: COLORS.primary500,
+    backgroundColor: COLORS.primary50,
+  },
+  optionName: {
+    fontSize: 16,
+    fontFamily: "Pretendard-Medium",
+    color: COLORS.gray800,
+  },
+  optionPrice: {
+    fontSize: 14,
+    fontFamily: "Pretendard-Medium",
+    color: COLORS.gray500,
+  },
+  footer: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 16,
+    marginTop: 24,
+  },
+  stepper: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderWidth: 1,
+    borderColor: COLORS.gray200,
+    borderRadius: 12,
+  },
+  stepperButton: {
+    width: 56,
+    height: 56,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  quantity: {
+    minWidth: 40,
+    textAlign: "center",
+    fontSize: 20,
+    fontFamily: "Pretendard-SemiBold",
+    color: COLORS.gray900,
+  },
+  addButton: {
+    flex: 1,
+    height: 58,
+    borderRadius: 12,
+    backgroundColor: COLORS.primary600,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  addDisabled: {
+    backgroundColor: COLORS.gray300,
+  },
+  addText: {
+    fontSize: 18,
+    fontFamily: "Pretendard-SemiBold",
+    color: COLORS.white,
+  },
+});
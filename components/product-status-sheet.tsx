@@ -0,0 +1,151 @@
+import React from "react";
+import { Modal, StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { COLORS } from "@/constants/colors";
+import { Product, ProductStatus } from "@/libs/schemas";
+
+interface ProductStatusSheetProps {
+  product: Product | null;
+  onSelect: (product: Product, status: ProductStatus) => void;
+  onClose: () => void;
+}
+
+const STATUS_OPTIONS: {
+  status: ProductStatus;
+  label: string;
+  description: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  color: string;
+}[] = [
+  {
+    status: "AVAILABLE",
+    label: "판매 중",
+    description: "고객이 주문할 수 있습니다",
+    icon: "checkmark-circle-outline",
+    color: COLORS.success600,
+  },
+  {
+    status: "SOLD_OUT",
+    label: "품절",
+    description: "메뉴에 표시되지만 주문할 수 없습니다",
+    icon: "close-circle-outline",
+    color: COLORS.danger500,
+  },
+  {
+    status: "HIDDEN",
+    label: "숨김",
+    description: "고객 메뉴에서 숨깁니다",
+    icon: "eye-off-outline",
+    color: COLORS.gray600,
+  },
+];
+
+export default function ProductStatusSheet({
+  product,
+  onSelect,
+  onClose,
+}: ProductStatusSheetProps): React.ReactElement {
+  return (
+    <Modal
+      visible={!!product}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <TouchableOpacity
+        style={styles.overlay}
+        onPress={onClose}
+        activeOpacity={1}
+      >
+        <View style={styles.container}>
+          <Text style={styles.title} numberOfLines={1}>
+            {product?.name}
+          </Text>
+          <Text style={styles.subtitle}>판매 상태 변경</Text>
+
+          {STATUS_OPTIONS.map(({ status, label, description, icon, color }) => {
+            const selected = product?.status === status;
+
+            return (
+              <TouchableOpacity
+                key={status}
+                style={[styles.option, selected && styles.optionSelected]}
+                onPress={() => product && onSelect(product, status)}
+                disabled={selected}
+                activeOpacity={0.7}
+              >
+                <Ionicons name={icon} size={26} color={color} />
+                <View style={styles.optionText}>
+                  <Text style={[styles.optionLabel, { color }]}>{label}</Text>
+                  <Text style={styles.optionDescription}>{description}</Text>
+                </View>
+                {selected && (
+                  <Ionicons
+                    name="checkmark"
+                    size={22}
+                    color={COLORS.primary500}
+                  />
+                )}
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(15, 23, 42, 0.5)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  container: {
+    width: 400,
+    backgroundColor: COLORS.white,
+    borderRadius: 16,
+    padding: 24,
+  },
+  title: {
+    fontSize: 20,
+    fontFamily: "Pretendard-Bold",
+    color: COLORS.gray900,
+  },
+  subtitle: {
+    marginTop: 4,
+    marginBottom: 16,
+    fontSize: 14,
+    fontFamily: "Pretendard-Medium",
+    color: COLORS.gray500,
+  },
+  option: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 14,
+    paddingVertical: 14,
+    paddingHorizontal: 16,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: COLORS.gray200,
+    marginBottom: 10,
+  },
+  optionSelected: {
+    borderColor: COLORS.primary500,
+    backgroundColor: COLORS.primary50,
+  },
+  optionText: {
+    flex: 1,
+  },
+  optionLabel: {
+    fontSize: 17,
+    fontFamily: "Pretendard-SemiBold",
+  },
+  optionDescription: {
+    marginTop: 2,
+    fontSize: 14,
+    fontFamily: "Pretendard-Regular",
+    color: COLORS.gray500,
+  },
+});
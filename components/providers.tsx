@@ -1,21 +1,8 @@
-import React, { PropsWithChildren, useState } from "react";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import React, { PropsWithChildren } from "react";
+import { QueryClientProvider } from "@tanstack/react-query";
+import { queryClient } from "@/libs/query-client";
 
 export default function QueryProvider({ children }: PropsWithChildren) {
-  const [queryClient] = useState(
-    () =>
-      new QueryClient({
-        defaultOptions: {
-          queries: {
-            retry: 2,
-            staleTime: 1000 * 60 * 5,
-            refetchOnWindowFocus: false,
-            refetchOnReconnect: true,
-          },
-        },
-      })
-  );
-
   return (
     <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
   );
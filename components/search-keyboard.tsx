@@ -0,0 +1,164 @@
+import React, { useState } from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { COLORS } from "@/constants/colors";
+
+interface SearchKeyboardProps {
+  onKey: (key: string) => void;
+  onBackspace: () => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const NUMBER_ROW = [..."1234567890"];
+const HANGUL_ROWS = [
+  [..."ㅂㅈㄷㄱㅅㅛㅕㅑㅐㅔ"],
+  [..."ㅁㄴㅇㄹㅎㅗㅓㅏㅣ"],
+  [..."ㅋㅌㅊㅍㅠㅜㅡ"],
+];
+const SHIFTED_KEYS: Record<string, string> = {
+  ㅂ: "ㅃ",
+  ㅈ: "ㅉ",
+  ㄷ: "ㄸ",
+  ㄱ: "ㄲ",
+  ㅅ: "ㅆ",
+  ㅐ: "ㅒ",
+  ㅔ: "ㅖ",
+};
+
+export default function SearchKeyboard({
+  onKey,
+  onBackspace,
+  onClear,
+  onClose,
+}: SearchKeyboardProps): React.ReactElement {
+  const [shifted, setShifted] = useState<boolean>(false);
+
+  const handleKey = (key: string) => {
+    onKey(shifted ? (SHIFTED_KEYS[key] ?? key) : key);
+    setShifted(false);
+  };
+
+  const renderKey = (key: string) => (
+    <TouchableOpacity
+      key={key}
+      style={styles.key}
+      onPress={() => handleKey(key)}
+      activeOpacity={0.6}
+    >
+      <Text style={styles.keyText}>
+        {shifted ? (SHIFTED_KEYS[key] ?? key) : key}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>{NUMBER_ROW.map(renderKey)}</View>
+      <View style={styles.row}>{HANGUL_ROWS[0].map(renderKey)}</View>
+      <View style={styles.row}>{HANGUL_ROWS[1].map(renderKey)}</View>
+      <View style={styles.row}>
+        <TouchableOpacity
+          style={[styles.key, styles.wideKey, shifted && styles.activeKey]}
+          onPress={() => setShifted((value) => !value)}
+          activeOpacity={0.6}
+        >
+          <Ionicons
+            name="arrow-up"
+            size={22}
+            color={shifted ? COLORS.white : COLORS.gray700}
+          />
+        </TouchableOpacity>
+        {HANGUL_ROWS[2].map(renderKey)}
+        <TouchableOpacity
+          style={[styles.key, styles.wideKey]}
+          onPress={onBackspace}
+          onLongPress={onClear}
+          activeOpacity={0.6}
+        >
+          <Ionicons name="backspace-outline" size={22} color={COLORS.gray700} />
+        </TouchableOpacity>
+      </View>
+      <View style={styles.row}>
+        <TouchableOpacity
+          style={[styles.key, styles.wideKey]}
+          onPress={onClear}
+          activeOpacity={0.6}
+        >
+          <Text style={styles.actionText}>지우기</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.key, styles.spaceKey]}
+          onPress={() => onKey(" ")}
+          activeOpacity={0.6}
+        >
+          <Text style={styles.actionText}>띄어쓰기</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.key, styles.wideKey, styles.doneKey]}
+          onPress={onClose}
+          activeOpacity={0.6}
+        >
+          <Text style={styles.doneText}>완료</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: 8,
+    gap: 6,
+    backgroundColor: COLORS.gray100,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.gray200,
+  },
+  row: {
+    flexDirection: "row",
+    justifyContent: "center",
+    gap: 6,
+  },
+  key: {
+    flex: 1,
+    maxWidth: 72,
+    height: 52,
+    borderRadius: 8,
+    backgroundColor: COLORS.white,
+    justifyContent: "center",
+    alignItems: "center",
+    borderWidth: 1,
+    borderColor: COLORS.gray200,
+  },
+  wideKey: {
+    flex: 1.5,
+    maxWidth: 108,
+  },
+  spaceKey: {
+    flex: 5,
+    maxWidth: 360,
+  },
+  activeKey: {
+    backgroundColor: COLORS.primary500,
+    borderColor: COLORS.primary500,
+  },
+  doneKey: {
+    backgroundColor: COLORS.primary600,
+    borderColor: COLORS.primary600,
+  },
+  keyText: {
+    fontSize: 20,
+    fontFamily: "Pretendard-Medium",
+    color: COLORS.gray900,
+  },
+  actionText: {
+    fontSize: 15,
+    fontFamily: "Pretendard-SemiBold",
+    color: COLORS.gray700,
+  },
+  doneText: {
+    fontSize: 15,
+    fontFamily: "Pretendard-SemiBold",
+    color: COLORS.white,
+  },
+});
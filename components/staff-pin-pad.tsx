@@ -0,0 +1,250 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Modal,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { COLORS } from "@/constants/colors";
+import { MAX_ATTEMPT_FAILURES, formatRemainingTime } from "@/stores/attempts";
+import { usePinAttemptStore } from "@/stores/pin-attempts";
+import { useStaffStore } from "@/stores/staff";
+
+interface StaffPinPadProps {
+  visible: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+const MAX_PIN_LENGTH = 8;
+const MIN_PIN_LENGTH = 4;
+const KEYS = ["1", "2", "3", "4", "5", "6", "7", "8", "9", "back", "0", "ok"];
+
+export default function StaffPinPad({
+  visible,
+  onClose,
+  onSuccess,
+}: StaffPinPadProps): React.ReactElement {
+  const verifyPin = useStaffStore((state) => state.verifyPin);
+  const blockedUntil = usePinAttemptStore((state) => state.blockedUntil);
+  const lockedOut = usePinAttemptStore((state) => state.lockedOut);
+  const { getRemainingTime } = usePinAttemptStore.getState();
+  const [remainingTime, setRemainingTime] = useState<number>(() =>
+    getRemainingTime()
+  );
+  const [pin, setPin] = useState<string>("");
+  const [verifying, setVerifying] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const blocked = remainingTime > 0;
+
+  useEffect(() => {
+    if (visible) {
+      setPin("");
+      setError(null);
+    }
+  }, [visible]);
+
+  useEffect(() => {
+    setRemainingTime(getRemainingTime());
+    if (!visible || !blockedUntil) return;
+
+    const interval = setInterval(() => {
+      const remaining = getRemainingTime();
+      setRemainingTime(remaining);
+      if (remaining <= 0) {
+        clearInterval(interval);
+      }
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [visible, blockedUntil, getRemainingTime]);
+
+  const handleSubmit = useCallback(async () => {
+    if (pin.length < MIN_PIN_LENGTH || verifying || blocked) return;
+
+    setVerifying(true);
+    const matched = await verifyPin(pin);
+    setVerifying(false);
+    setPin("");
+
+    if (matched) {
+      onSuccess();
+      return;
+    }
+
+    const { failures } = usePinAttemptStore.getState();
+    setError(
+      failures > 0
+        ? `PIN이 올바르지 않습니다 (${failures}/${MAX_ATTEMPT_FAILURES})`
+        : "PIN이 올바르지 않습니다"
+    );
+  }, [pin, verifying, blocked, verifyPin, onSuccess]);
+
+  const handleKeyPress = useCallback(
+    (key: string) => {
+      if (verifying || blocked) return;
+
+      if (key === "ok") {
+        handleSubmit();
+      } else if (key === "back") {
+        setPin((current) => current.slice(0, -1));
+      } else {
+        setError(null);
+        setPin((current) =>
+          current.length < MAX_PIN_LENGTH ? current + key : current
+        );
+      }
+    },
+    [verifying, blocked, handleSubmit]
+  );
+
+  const renderKey = (key: string) => {
+    if (key === "back") {
+      return (
+        <Ionicons name="backspace-outline" size={26} color={COLORS.gray700} />
+      );
+    }
+    if (key === "ok") {
+      return verifying ? (
+        <ActivityIndicator color={COLORS.white} size="small" />
+      ) : (
+        <Text style={styles.okKeyText}>확인</Text>
+      );
+    }
+    return <Text style={styles.keyText}>{key}</Text>;
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <View style={styles.header}>
+            <Text style={styles.title}>관리자 PIN 입력</Text>
+            <TouchableOpacity onPress={onClose} hitSlop={12}>
+              <Ionicons name="close" size={24} color={COLORS.gray500} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.dots}>
+            {Array.from({ length: Math.max(pin.length, MIN_PIN_LENGTH) }).map(
+              (_, index) => (
+                <View
+                  key={index}
+                  style={[styles.dot, index < pin.length && styles.dotFilled]}
+                />
+              )
+            )}
+          </View>
+          <Text style={styles.errorText}>
+            {blocked
+              ? lockedOut
+                ? `입력 시도가 너무 많습니다. ${formatRemainingTime(remainingTime)} 후 다시 시도해주세요`
+                : `${formatRemainingTime(remainingTime)} 후 다시 시도해주세요`
+              : (error ?? " ")}
+          </Text>
+
+          <View style={styles.keypad}>
+            {KEYS.map((key) => (
+              <TouchableOpacity
+                key={key}
+                style={[styles.key, key === "ok" && styles.okKey]}
+                onPress={() => handleKeyPress(key)}
+                disabled={
+                  blocked || (key === "ok" && pin.length < MIN_PIN_LENGTH)
+                }
+                activeOpacity={0.6}
+              >
+                {renderKey(key)}
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(15, 23, 42, 0.5)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  container: {
+    width: 360,
+    backgroundColor: COLORS.white,
+    borderRadius: 16,
+    padding: 24,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  title: {
+    fontSize: 20,
+    fontFamily: "Pretendard-Bold",
+    color: COLORS.gray900,
+  },
+  dots: {
+    flexDirection: "row",
+    justifyContent: "center",
+    gap: 12,
+    marginTop: 28,
+  },
+  dot: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    borderWidth: 2,
+    borderColor: COLORS.gray300,
+  },
+  dotFilled: {
+    backgroundColor: COLORS.primary500,
+    borderColor: COLORS.primary500,
+  },
+  errorText: {
+    marginTop: 12,
+    marginBottom: 16,
+    textAlign: "center",
+    fontSize: 14,
+    fontFamily: "Pretendard-Medium",
+    color: COLORS.danger500,
+  },
+  keypad: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "space-between",
+    rowGap: 10,
+  },
+  key: {
+    width: "31%",
+    height: 60,
+    borderRadius: 8,
+    backgroundColor: COLORS.gray50,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  keyText: {
+    fontSize: 24,
+    fontFamily: "Pretendard-SemiBold",
+    color: COLORS.gray900,
+  },
+  okKey: {
+    backgroundColor: COLORS.primary500,
+  },
+  okKeyText: {
+    fontSize: 18,
+    fontFamily: "Pretendard-SemiBold",
+    color: COLORS.white,
+  },
+});
@@ -0,0 +1,18 @@
+import { startUpdateManager } from "@/libs/updates";
+import { usePathname } from "expo-router";
+import { useEffect, useRef } from "react";
+
+export default function UpdateManager(): null {
+  const pathname = usePathname();
+  const pathnameRef = useRef<string>(pathname);
+
+  useEffect(() => {
+    pathnameRef.current = pathname;
+  }, [pathname]);
+
+  useEffect(() => {
+    return startUpdateManager({ getRoute: () => pathnameRef.current });
+  }, []);
+
+  return null;
+}
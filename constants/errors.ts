@@ -0,0 +1,29 @@
+export const ERROR_MESSAGES: Record<string, string> = {
+  BOOTH_NOT_FOUND: "등록된 부스가 아닙니다",
+  BOOTH_NOT_APPROVED: "승인된 부스가 아닙니다",
+  BOOTH_REJECTED: "거절된 부스입니다",
+  BOOTH_INACTIVE: "금지된 부스입니다",
+  BOOTH_PASSWORD_NOT_MATCH: "비밀번호가 맞지 않습니다",
+  TOO_MANY_LOGIN_ATTEMPTS:
+    "로그인 시도가 너무 많습니다. 잠시 후 다시 시도해주세요",
+  INSUFFICIENT_STOCK: "재고가 부족합니다",
+  PRODUCT_NOT_FOUND: "일부 상품이 판매 불가능합니다",
+  PRODUCT_UNAVAILABLE: "판매 중단된 상품이 포함되어 있습니다",
+  ORDER_NOT_FOUND: "주문을 찾을 수 없습니다",
+  ORDER_NOT_PENDING: "이미 처리된 주문입니다",
+  USER_NOT_FOUND: "등록되지 않은 학번입니다",
+  IDEMPOTENCY_REQUEST_IN_PROGRESS:
+    "이전 요청을 처리하고 있습니다. 잠시 후 다시 시도해주세요",
+};
+
+export const RETRYABLE_ERROR_CODES = ["IDEMPOTENCY_REQUEST_IN_PROGRESS"];
+
+export const FALLBACK_ERROR_MESSAGES = {
+  TIMEOUT: "서버 응답 시간 초과",
+  NETWORK: "서버에 연결할 수 없습니다",
+  VALIDATION: "서버 응답 형식이 올바르지 않습니다",
+  UNAUTHORIZED: "키오스크 연결이 만료되었습니다",
+  RATE_LIMITED: "요청이 너무 많습니다. 잠시 후 다시 시도해주세요",
+  SERVER: "서버에 일시적인 문제가 발생했습니다",
+  UNKNOWN: "요청을 처리하지 못했습니다",
+};
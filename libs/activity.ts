@@ -0,0 +1,27 @@
+let lastInteractionAt = Date.now();
+let holds = 0;
+
+export function recordInteraction(): void {
+  lastInteractionAt = Date.now();
+}
+
+/**
+ * Marks the kiosk as in use until the returned function is called, for
+ * screens a customer can leave open without touching, such as a sheet.
+ */
+export function holdInteraction(): () => void {
+  let released = false;
+  holds += 1;
+  recordInteraction();
+
+  return () => {
+    if (released) return;
+    released = true;
+    holds -= 1;
+    recordInteraction();
+  };
+}
+
+export function getIdleTime(): number {
+  return holds > 0 ? 0 : Date.now() - lastInteractionAt;
+}
@@ -1,6 +1,22 @@
-import axios from "axios";
+import axios, { InternalAxiosRequestConfig } from "axios";
 import { API_URL } from "../constants/api";
 import { useAuthStore } from "../stores/auth";
+import { getApiUrl } from "../stores/environment";
+import { logger } from "./logger";
+import { emitSessionExpired } from "./session";
+
+type RetriableRequestConfig = InternalAxiosRequestConfig & {
+  _retried?: boolean;
+  _startedAt?: number;
+};
+
+const UNLOGGED_PATHS = ["/kiosks/heartbeat"];
+
+const describeRequest = (config: RetriableRequestConfig | undefined) => ({
+  method: config?.method?.toUpperCase(),
+  url: config?.url,
+  duration: config?._startedAt ? Date.now() - config._startedAt : null,
+});
 
 const api = axios.create({
   baseURL: API_URL,
@@ -9,8 +25,27 @@ const api = axios.create({
   },
 });
 
-api.interceptors.request.use((config) => {
-  const { token } = useAuthStore.getState();
+const getFreshToken = async (): Promise<string | null> => {
+  const { token, refreshing, isExpiringSoon, refresh } =
+    useAuthStore.getState();
+  if (!token) return null;
+
+  if (refreshing || isExpiringSoon()) {
+    try {
+      return await refresh();
+    } catch {
+      return useAuthStore.getState().token;
+    }
+  }
+
+  return token;
+};
+
+api.interceptors.request.use(async (config: RetriableRequestConfig) => {
+  config.baseURL = getApiUrl();
+  config._startedAt = Date.now();
+
+  const token = await getFreshToken();
   if (token) {
     config.headers["Authorization"] = `Bearer ${token}`;
   }
@@ -18,14 +53,51 @@ api.interceptors.request.use((config) => {
 });
 
 api.interceptors.response.use(
-  (response) => response,
+  (response) => {
+    const config = response.config as RetriableRequestConfig;
+    if (!UNLOGGED_PATHS.includes(config.url ?? "")) {
+      logger.info("api", `${response.status} ${config.url}`, {
+        ...describeRequest(config),
+        status: response.status,
+      });
+    }
+    return response;
+  },
   async (error) => {
-    if (error.response?.status === 401) {
-      const { signOut } = useAuthStore.getState();
-      signOut();
+    const config = error.config as RetriableRequestConfig | undefined;
+
+    logger.warn(
+      "api",
+      `${error.response?.status ?? error.code} ${config?.url}`,
+      {
+        ...describeRequest(config),
+        status: error.response?.status ?? null,
+        code: error.response?.data?.code ?? error.code ?? null,
+      }
+    );
 
-      if (window.location.pathname !== "/login") {
-        window.location.href = "/login";
+    if (error.response?.status === 401 && config && !config._retried) {
+      config._retried = true;
+
+      try {
+        const { token: currentToken, refresh } = useAuthStore.getState();
+        const token =
+          currentToken &&
+          config.headers["Authorization"] !== `Bearer ${currentToken}`
+            ? currentToken
+            : await refresh();
+        config.headers["Authorization"] = `Bearer ${token}`;
+        return api(config);
+      } catch {
+        return Promise.reject(error);
+      }
+    }
+
+    if (error.response?.status === 401) {
+      const { token, signOut } = useAuthStore.getState();
+      if (token) {
+        emitSessionExpired("UNAUTHORIZED", token);
+        signOut();
       }
     }
     return Promise.reject(error);
@@ -0,0 +1,94 @@
+import { Product, ProductCategory } from "./schemas";
+
+export interface ProductSection {
+  key: string;
+  title: string;
+  products: Product[];
+  data: Product[][];
+}
+
+const UNCATEGORIZED_KEY = "uncategorized";
+
+export const isBundle = (product: Product) => product.bundleItems.length > 0;
+
+/**
+ * Returns how many more of a product can be sold, given how many units of
+ * each product are already reserved (e.g. by the cart). A bundle has no stock
+ * of its own and is limited by its scarcest component; a component missing
+ * from the catalog or not on sale makes the bundle unavailable.
+ */
+export function getRemainingStock(
+  product: Product,
+  products: Product[],
+  getReserved: (productId: number) => number = () => 0
+): number {
+  if (!isBundle(product)) {
+    return Math.max(product.stock - getReserved(product.id), 0);
+  }
+
+  return Math.min(
+    ...product.bundleItems.map(({ productId, quantity }) => {
+      const component = products.find(({ id }) => id === productId);
+      if (!component || component.status !== "AVAILABLE") return 0;
+      return Math.max(
+        Math.floor((component.stock - getReserved(productId)) / quantity),
+        0
+      );
+    })
+  );
+}
+
+const compareProducts = (a: Product, b: Product) =>
+  a.sortOrder - b.sortOrder || a.id - b.id;
+
+const compareCategories = (a: ProductCategory, b: ProductCategory) =>
+  a.sortOrder - b.sortOrder || a.name.localeCompare(b.name, "ko");
+
+const toRows = (products: Product[], columns: number) => {
+  const rows: Product[][] = [];
+  for (let index = 0; index < products.length; index += columns) {
+    rows.push(products.slice(index, index + columns));
+  }
+  return rows;
+};
+
+export const formatBundleContents = (
+  items: { name: string; quantity: number }[]
+) =>
+  items
+    .map(({ name, quantity }) => (quantity > 1 ? `${name} x${quantity}` : name))
+    .join(" + ");
+
+/**
+ * Groups products into category sections split into grid rows. Products
+ * without a category are collected in a trailing "기타" section.
+ */
+export function groupProductsByCategory(
+  products: Product[],
+  columns: number
+): ProductSection[] {
+  const categories = new Map<number, ProductCategory>();
+  const grouped = new Map<string, Product[]>();
+
+  products.forEach((product) => {
+    const key = product.category
+      ? product.category.id.toString()
+      : UNCATEGORIZED_KEY;
+    if (product.category) {
+      categories.set(product.category.id, product.category);
+    }
+    grouped.set(key, [...(grouped.get(key) ?? []), product]);
+  });
+
+  const sections = [...categories.values()]
+    .sort(compareCategories)
+    .map(({ id, name }) => ({ key: id.toString(), title: name }));
+  if (grouped.has(UNCATEGORIZED_KEY)) {
+    sections.push({ key: UNCATEGORIZED_KEY, title: "기타" });
+  }
+
+  return sections.map(({ key, title }) => {
+    const sorted = (grouped.get(key) ?? []).sort(compareProducts);
+    return { key, title, products: sorted, data: toRows(sorted, columns) };
+  });
+}
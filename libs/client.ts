@@ -0,0 +1,188 @@
+import axios, { isAxiosError } from "axios";
+import { z } from "zod";
+import { getApiUrl } from "../stores/environment";
+import api from "./api";
+import { ResponseValidationError } from "./errors";
+import {
+  CreateOrderRequest,
+  KioskAuth,
+  KioskConfig,
+  KioskHeartbeatRequest,
+  KioskLoginRequest,
+  Order,
+  OrderDetail,
+  PaymentRequest,
+  Product,
+  ProductStatus,
+  StockAdjustmentRequest,
+  kioskAuthSchema,
+  kioskConfigSchema,
+  orderDetailSchema,
+  orderHistorySchema,
+  orderSchema,
+  paymentRequestSchema,
+  productListSchema,
+  productSchema,
+} from "./schemas";
+
+const parseResponse = <T extends z.ZodTypeAny>(
+  schema: T,
+  data: unknown,
+  endpoint: string
+): z.infer<T> => {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new ResponseValidationError(endpoint, result.error.issues);
+  }
+  return result.data;
+};
+
+const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+
+/**
+ * Retried requests reuse the same key. The server answers a replay either
+ * with the original 2xx response or with a 409 carrying the original body,
+ * and both are treated as success.
+ */
+const postIdempotent = async <T extends z.ZodTypeAny>(
+  url: string,
+  body: unknown,
+  idempotencyKey: string,
+  schema: T
+): Promise<z.infer<T>> => {
+  const endpoint = `POST ${url}`;
+
+  try {
+    const response = await api.post(url, body, {
+      headers: { [IDEMPOTENCY_KEY_HEADER]: idempotencyKey },
+    });
+    return parseResponse(schema, response.data, endpoint);
+  } catch (error) {
+    if (isAxiosError(error) && error.response?.status === 409) {
+      const replayed = schema.safeParse(error.response.data);
+      if (replayed.success) return replayed.data;
+    }
+    throw error;
+  }
+};
+
+export async function fetchAvailableProducts(): Promise<Product[]> {
+  const response = await api.get("/products/available");
+  return parseResponse(
+    productListSchema,
+    response.data,
+    "GET /products/available"
+  );
+}
+
+export async function fetchBoothProducts(): Promise<Product[]> {
+  const response = await api.get("/products");
+  return parseResponse(productListSchema, response.data, "GET /products");
+}
+
+export async function updateProductStatus(
+  productId: number,
+  status: ProductStatus
+): Promise<Product> {
+  const response = await api.patch(`/products/${productId}/status`, {
+    status,
+  });
+  return parseResponse(
+    productSchema,
+    response.data,
+    `PATCH /products/${productId}/status`
+  );
+}
+
+export async function adjustProductStock(
+  productId: number,
+  request: StockAdjustmentRequest,
+  idempotencyKey: string
+): Promise<Product> {
+  return postIdempotent(
+    `/products/${productId}/stock-adjustments`,
+    request,
+    idempotencyKey,
+    productSchema
+  );
+}
+
+export async function createOrder(
+  request: CreateOrderRequest,
+  idempotencyKey: string
+): Promise<Order> {
+  return postIdempotent("/orders", request, idempotencyKey, orderSchema);
+}
+
+export async function fetchKioskConfig(): Promise<KioskConfig> {
+  const response = await api.get("/kiosks/config");
+  return parseResponse(kioskConfigSchema, response.data, "GET /kiosks/config");
+}
+
+export async function fetchKioskOrders(): Promise<OrderDetail[]> {
+  const response = await api.get("/kiosks/orders");
+  return parseResponse(orderHistorySchema, response.data, "GET /kiosks/orders");
+}
+
+export async function fetchOrder(orderId: number): Promise<OrderDetail> {
+  const response = await api.get(`/orders/${orderId}`);
+  return parseResponse(
+    orderDetailSchema,
+    response.data,
+    `GET /orders/${orderId}`
+  );
+}
+
+export async function cancelOrder(orderId: number): Promise<void> {
+  await api.post(`/orders/${orderId}/cancel`);
+}
+
+export async function requestQrPayment(
+  orderId: number,
+  idempotencyKey: string
+): Promise<PaymentRequest> {
+  return postIdempotent(
+    "/payments/qr",
+    { orderId },
+    idempotencyKey,
+    paymentRequestSchema
+  );
+}
+
+export async function requestStudentIdPayment(
+  orderId: number,
+  studentId: string,
+  idempotencyKey: string
+): Promise<PaymentRequest> {
+  return postIdempotent(
+    "/payments/student-id",
+    { orderId, studentId },
+    idempotencyKey,
+    paymentRequestSchema
+  );
+}
+
+export async function loginKiosk(
+  request: KioskLoginRequest
+): Promise<KioskAuth> {
+  const response = await axios.post(`${getApiUrl()}/kiosks/login`, request);
+  return parseResponse(kioskAuthSchema, response.data, "POST /kiosks/login");
+}
+
+export async function registerKiosk(
+  registrationToken: string,
+  apiUrl: string = getApiUrl()
+): Promise<KioskAuth> {
+  const response = await axios.post(
+    `${apiUrl}/kiosks/register`,
+    { registrationToken },
+    { timeout: 10000 }
+  );
+  return parseResponse(kioskAuthSchema, response.data, "POST /kiosks/register");
+}
+
+export async function sendHeartbeat(
+  request: KioskHeartbeatRequest
+): Promise<void> {
+  await api.post("/kiosks/heartbeat", request, { timeout: 10000 });
+}
@@ -0,0 +1,31 @@
+import { useAuthStore } from "../stores/auth";
+import { useConfigStore } from "../stores/config";
+import { fetchKioskConfig } from "./client";
+import { logger } from "./logger";
+
+const CONFIG_REFRESH_INTERVAL = 10 * 60 * 1000;
+
+/**
+ * Keeps the cached config when the server cannot be reached so the kiosk
+ * behaves the same while offline.
+ */
+export async function refreshKioskConfig(): Promise<void> {
+  const { activeProfileId } = useAuthStore.getState();
+
+  try {
+    const config = await fetchKioskConfig();
+
+    // The kiosk switched booths while the request was in flight
+    if (useAuthStore.getState().activeProfileId !== activeProfileId) return;
+    useConfigStore.getState().setConfig(config);
+  } catch (error) {
+    logger.warn("app", "Failed to refresh kiosk config", error);
+  }
+}
+
+export function startConfigSync(): () => void {
+  refreshKioskConfig();
+  const timer = setInterval(refreshKioskConfig, CONFIG_REFRESH_INTERVAL);
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,120 @@
+import { useAuthStore } from "../stores/auth";
+import { getWsUrl } from "../stores/environment";
+import { useLockStore } from "../stores/lock";
+import { refreshKioskConfig } from "./config";
+import { deregisterKiosk } from "./kiosk";
+import { logger } from "./logger";
+import { KioskControlMessage, kioskControlMessageSchema } from "./schemas";
+
+const CONTROL_RECONNECT_DELAY = 3000;
+const MAX_CONTROL_RECONNECT_DELAY = 60 * 1000;
+
+const handleControlMessage = async (message: KioskControlMessage) => {
+  switch (message.type) {
+    case "LOCK":
+      useLockStore.getState().lock(message.reason ?? null);
+      break;
+    case "UNLOCK":
+      useLockStore.getState().unlock();
+      break;
+    case "DEREGISTER":
+      await deregisterKiosk();
+      break;
+    case "CONFIG_UPDATED":
+      await refreshKioskConfig();
+      break;
+  }
+};
+
+/**
+ * Keeps the kiosk control socket open while signed in. The socket is
+ * reopened with the latest access token after every disconnect.
+ */
+export function startControlChannel(): () => void {
+  let stopped = false;
+  let attempts = 0;
+  let socket: WebSocket | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const scheduleReconnect = () => {
+    if (stopped || reconnectTimer) return;
+
+    const delay = Math.min(
+      CONTROL_RECONNECT_DELAY * 2 ** attempts,
+      MAX_CONTROL_RECONNECT_DELAY
+    );
+    attempts += 1;
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      connect();
+    }, delay);
+  };
+
+  const connect = () => {
+    const { token } = useAuthStore.getState();
+    if (stopped || !token) return;
+
+    try {
+      const ws = new WebSocket(
+        `${getWsUrl()}/ws/kiosks/control?token=${encodeURIComponent(token)}`
+      );
+      socket = ws;
+
+      ws.onopen = () => {
+        logger.info("control", "Control channel connected");
+        attempts = 0;
+      };
+
+      ws.onmessage = (event) => {
+        // A closing socket may still deliver messages meant for another booth
+        if (stopped || socket !== ws) return;
+
+        try {
+          const result = kioskControlMessageSchema.safeParse(
+            JSON.parse(event.data)
+          );
+          if (!result.success) {
+            logger.warn("control", "Unknown control message", event.data);
+            return;
+          }
+
+          logger.info("control", `Received ${result.data.type}`, result.data);
+          handleControlMessage(result.data).catch((error) => {
+            logger.error("control", "Failed to apply control message", error);
+          });
+        } catch (error) {
+          logger.error("control", "Failed to parse control message", error);
+        }
+      };
+
+      ws.onerror = (error) => {
+        logger.warn("control", "Control channel error", error);
+      };
+
+      ws.onclose = (event) => {
+        logger.info("control", "Control channel closed", { code: event.code });
+        if (socket === ws) {
+          socket = null;
+        }
+        scheduleReconnect();
+      };
+    } catch (error) {
+      logger.error("control", "Control channel connection failed", error);
+      scheduleReconnect();
+    }
+  };
+
+  connect();
+
+  return () => {
+    stopped = true;
+    if (reconnectTimer) {
+      clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+    }
+    if (socket) {
+      socket.close();
+      socket = null;
+    }
+  };
+}
@@ -0,0 +1,94 @@
+import axios from "axios";
+import { getApiUrl, getWsUrl } from "../stores/environment";
+
+export interface ConnectivityResult {
+  ok: boolean;
+  latency: number | null;
+  detail: string;
+}
+
+export interface DiagnosticSection {
+  title: string;
+  rows: { label: string; value: string }[];
+}
+
+const DIAGNOSTIC_TIMEOUT = 5000;
+
+export async function checkApiReachability(): Promise<ConnectivityResult> {
+  const startedAt = Date.now();
+
+  try {
+    const response = await axios.get(getApiUrl(), {
+      timeout: DIAGNOSTIC_TIMEOUT,
+      validateStatus: () => true,
+    });
+    return {
+      ok: response.status < 500,
+      latency: Date.now() - startedAt,
+      detail: `HTTP ${response.status}`,
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      latency: null,
+      detail: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Opens a throwaway payment socket. Only the handshake is measured; the
+ * server closes sockets for unknown requests right after they connect.
+ */
+export function checkWebSocket(
+  requestId: number | null
+): Promise<ConnectivityResult> {
+  const url = `${getWsUrl()}/ws/payment-requests/${requestId ?? 0}`;
+  const startedAt = Date.now();
+
+  return new Promise((resolve) => {
+    let settled = false;
+    let ws: WebSocket | null = null;
+
+    const settle = (result: ConnectivityResult) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeout);
+      try {
+        ws?.close();
+      } catch {}
+      resolve(result);
+    };
+
+    const timeout = setTimeout(() => {
+      settle({ ok: false, latency: null, detail: "연결 시간 초과" });
+    }, DIAGNOSTIC_TIMEOUT);
+
+    try {
+      ws = new WebSocket(url);
+      ws.onopen = () => {
+        settle({ ok: true, latency: Date.now() - startedAt, detail: url });
+      };
+      ws.onerror = () => {
+        settle({ ok: false, latency: null, detail: url });
+      };
+    } catch (error) {
+      settle({
+        ok: false,
+        latency: null,
+        detail: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+}
+
+export function formatDiagnosticReport(sections: DiagnosticSection[]): string {
+  const lines = [`Flick Place 진단 보고서 (${new Date().toISOString()})`];
+
+  sections.forEach(({ title, rows }) => {
+    lines.push("", `[${title}]`);
+    rows.forEach(({ label, value }) => lines.push(`${label}: ${value}`));
+  });
+
+  return lines.join("\n");
+}
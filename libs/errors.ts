@@ -0,0 +1,149 @@
+import { isAxiosError } from "axios";
+import { z } from "zod";
+import {
+  ERROR_MESSAGES,
+  FALLBACK_ERROR_MESSAGES,
+  RETRYABLE_ERROR_CODES,
+} from "../constants/errors";
+
+export type ApiErrorKind =
+  "http" | "timeout" | "network" | "validation" | "unknown";
+
+interface ApiErrorOptions {
+  kind: ApiErrorKind;
+  message: string;
+  code?: string | null;
+  status?: number | null;
+  retryable?: boolean;
+  retryAfter?: number | null;
+  cause?: unknown;
+}
+
+interface ErrorResponse {
+  code?: string;
+  status?: number;
+  message?: string;
+}
+
+export class ResponseValidationError extends Error {
+  readonly endpoint: string;
+  readonly issues: z.ZodIssue[];
+
+  constructor(endpoint: string, issues: z.ZodIssue[]) {
+    super(FALLBACK_ERROR_MESSAGES.VALIDATION);
+    this.name = "ResponseValidationError";
+    this.endpoint = endpoint;
+    this.issues = issues;
+  }
+}
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly code: string | null;
+  readonly status: number | null;
+  readonly retryable: boolean;
+  readonly retryAfter: number | null;
+  readonly cause: unknown;
+
+  constructor({
+    kind,
+    message,
+    code = null,
+    status = null,
+    retryable = false,
+    retryAfter = null,
+    cause,
+  }: ApiErrorOptions) {
+    super(message);
+    this.name = "ApiError";
+    this.kind = kind;
+    this.code = code;
+    this.status = status;
+    this.retryable = retryable;
+    this.retryAfter = retryAfter;
+    this.cause = cause;
+  }
+}
+
+const TIMEOUT_CODES = ["ECONNABORTED", "ETIMEDOUT"];
+
+const isRetryableStatus = (status: number) =>
+  status === 408 || status === 429 || status >= 500;
+
+const parseRetryAfter = (value: unknown): number | null => {
+  if (typeof value !== "string" && typeof value !== "number") return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+export function toApiError(
+  error: unknown,
+  fallbackMessage: string = FALLBACK_ERROR_MESSAGES.UNKNOWN
+): ApiError {
+  if (error instanceof ApiError) return error;
+
+  if (error instanceof ResponseValidationError) {
+    return new ApiError({
+      kind: "validation",
+      message: error.message,
+      cause: error,
+    });
+  }
+
+  if (isAxiosError(error)) {
+    if (error.code && TIMEOUT_CODES.includes(error.code)) {
+      return new ApiError({
+        kind: "timeout",
+        message: FALLBACK_ERROR_MESSAGES.TIMEOUT,
+        retryable: true,
+        cause: error,
+      });
+    }
+
+    if (!error.response) {
+      return new ApiError({
+        kind: "network",
+        message: FALLBACK_ERROR_MESSAGES.NETWORK,
+        retryable: true,
+        cause: error,
+      });
+    }
+
+    const { status } = error.response;
+    const data = error.response.data as ErrorResponse | undefined;
+    const code = typeof data?.code === "string" ? data.code : null;
+
+    let message = fallbackMessage;
+    if (code && ERROR_MESSAGES[code]) {
+      message = ERROR_MESSAGES[code];
+    } else if (status === 429) {
+      message = FALLBACK_ERROR_MESSAGES.RATE_LIMITED;
+    } else if (status === 401) {
+      message = FALLBACK_ERROR_MESSAGES.UNAUTHORIZED;
+    } else if (status >= 500) {
+      message = FALLBACK_ERROR_MESSAGES.SERVER;
+    }
+
+    return new ApiError({
+      kind: "http",
+      message,
+      code,
+      status,
+      retryable:
+        isRetryableStatus(status) ||
+        (code !== null && RETRYABLE_ERROR_CODES.includes(code)),
+      retryAfter: parseRetryAfter(error.response.headers?.["retry-after"]),
+      cause: error,
+    });
+  }
+
+  return new ApiError({
+    kind: "unknown",
+    message: fallbackMessage,
+    cause: error,
+  });
+}
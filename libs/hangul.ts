@@ -0,0 +1,207 @@
+const SYLLABLE_BASE = 0xac00;
+const SYLLABLE_LAST = 0xd7a3;
+const MEDIAL_COUNT = 21;
+const FINAL_COUNT = 28;
+
+const INITIALS = [..."ㄱㄲㄴㄷㄸㄹㅁㅂㅃㅅㅆㅇㅈㅉㅊㅋㅌㅍㅎ"];
+const MEDIALS = [..."ㅏㅐㅑㅒㅓㅔㅕㅖㅗㅘㅙㅚㅛㅜㅝㅞㅟㅠㅡㅢㅣ"];
+const FINALS = [
+  "",
+  ..."ㄱㄲㄳㄴㄵㄶㄷㄹㄺㄻㄼㄽㄾㄿㅀㅁㅂㅄㅅㅆㅇㅈㅊㅋㅌㅍㅎ",
+];
+
+const COMPOUND_MEDIALS: Record<string, string> = {
+  ㅗㅏ: "ㅘ",
+  ㅗㅐ: "ㅙ",
+  ㅗㅣ: "ㅚ",
+  ㅜㅓ: "ㅝ",
+  ㅜㅔ: "ㅞ",
+  ㅜㅣ: "ㅟ",
+  ㅡㅣ: "ㅢ",
+};
+const COMPOUND_FINALS: Record<string, string> = {
+  ㄱㅅ: "ㄳ",
+  ㄴㅈ: "ㄵ",
+  ㄴㅎ: "ㄶ",
+  ㄹㄱ: "ㄺ",
+  ㄹㅁ: "ㄻ",
+  ㄹㅂ: "ㄼ",
+  ㄹㅅ: "ㄽ",
+  ㄹㅌ: "ㄾ",
+  ㄹㅍ: "ㄿ",
+  ㄹㅎ: "ㅀ",
+  ㅂㅅ: "ㅄ",
+};
+const SPLIT_FINALS = Object.fromEntries(
+  Object.entries(COMPOUND_FINALS).map(([pair, final]) => [final, [...pair]])
+);
+
+interface Syllable {
+  initial: string;
+  medial: string;
+  final: string;
+}
+
+interface PendingSyllable {
+  initial: string | null;
+  medial: string | null;
+  final: string | null;
+}
+
+export const isConsonant = (char: string) => INITIALS.includes(char);
+
+export const isVowel = (char: string) => MEDIALS.includes(char);
+
+export function decompose(char: string): Syllable | null {
+  const code = char.charCodeAt(0) - SYLLABLE_BASE;
+  if (char.length !== 1 || code < 0 || code > SYLLABLE_LAST - SYLLABLE_BASE) {
+    return null;
+  }
+
+  return {
+    initial: INITIALS[Math.floor(code / (MEDIAL_COUNT * FINAL_COUNT))],
+    medial: MEDIALS[Math.floor(code / FINAL_COUNT) % MEDIAL_COUNT],
+    final: FINALS[code % FINAL_COUNT],
+  };
+}
+
+const compose = ({ initial, medial, final }: Syllable) =>
+  String.fromCharCode(
+    SYLLABLE_BASE +
+      (INITIALS.indexOf(initial) * MEDIAL_COUNT + MEDIALS.indexOf(medial)) *
+        FINAL_COUNT +
+      FINALS.indexOf(final)
+  );
+
+const flush = (syllable: PendingSyllable | null) => {
+  if (!syllable) return "";
+  if (syllable.initial && syllable.medial) {
+    return compose({
+      initial: syllable.initial,
+      medial: syllable.medial,
+      final: syllable.final ?? "",
+    });
+  }
+  return syllable.initial ?? syllable.medial ?? "";
+};
+
+/**
+ * Combines keys typed on a two-set (두벌식) keyboard into syllables, e.g.
+ * ["ㄸ", "ㅓ", "ㄱ", "ㅂ", "ㅗ", "ㄲ", "ㅇ", "ㅣ"] becomes "떡볶이".
+ * Consonants typed without a vowel are kept as they are for 초성 search.
+ */
+export function assembleHangul(keys: string[]): string {
+  let text = "";
+  let current: PendingSyllable | null = null;
+
+  keys.forEach((key) => {
+    if (isVowel(key)) {
+      const compound = current?.medial
+        ? COMPOUND_MEDIALS[current.medial + key]
+        : undefined;
+
+      if (current && compound && !current.final) {
+        current.medial = compound;
+      } else if (current?.final) {
+        // The last consonant starts the next syllable
+        const [kept, moved] = SPLIT_FINALS[current.final] ?? [
+          null,
+          current.final,
+        ];
+        text += flush({ ...current, final: kept });
+        current = { initial: moved, medial: key, final: null };
+      } else if (current?.initial && !current.medial) {
+        current.medial = key;
+      } else {
+        text += flush(current);
+        current = { initial: null, medial: key, final: null };
+      }
+      return;
+    }
+
+    if (isConsonant(key)) {
+      const compound = current?.final
+        ? COMPOUND_FINALS[current.final + key]
+        : undefined;
+
+      if (
+        current?.initial &&
+        current.medial &&
+        !current.final &&
+        FINALS.includes(key)
+      ) {
+        current.final = key;
+      } else if (current && compound) {
+        current.final = compound;
+      } else {
+        text += flush(current);
+        current = { initial: key, medial: null, final: null };
+      }
+      return;
+    }
+
+    text += flush(current) + key;
+    current = null;
+  });
+
+  return text + flush(current);
+}
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, "");
+
+const matchesCharacter = (
+  target: string,
+  query: string,
+  next: string | undefined,
+  last: boolean
+) => {
+  if (target === query) return true;
+
+  const syllable = decompose(target);
+  if (!syllable) return false;
+
+  if (isConsonant(query)) {
+    return syllable.initial === query;
+  }
+  if (!last) return false;
+
+  // The syllable being typed may still grow, e.g. "보" for "볶" or "칰" for "치킨"
+  const typed = decompose(query);
+  if (
+    !typed ||
+    typed.initial !== syllable.initial ||
+    typed.medial !== syllable.medial
+  ) {
+    return false;
+  }
+  if (!typed.final) return true;
+  return (
+    !syllable.final &&
+    !!next &&
+    (decompose(next)?.initial ?? next) === typed.final
+  );
+};
+
+/**
+ * Matches a search query anywhere in the target, allowing 초성 for any
+ * character and an unfinished syllable at the end of the query.
+ */
+export function matchesHangulQuery(target: string, query: string): boolean {
+  const text = normalize(target);
+  const search = normalize(query);
+  if (!search) return true;
+
+  for (let start = 0; start + search.length <= text.length; start += 1) {
+    const matched = [...search].every((char, index) =>
+      matchesCharacter(
+        text[start + index],
+        char,
+        text[start + index + 1],
+        index === search.length - 1
+      )
+    );
+    if (matched) return true;
+  }
+
+  return false;
+}
@@ -0,0 +1,79 @@
+import Constants from "expo-constants";
+import { Platform } from "react-native";
+import { useCartStore } from "../stores/cart";
+import { useConnectionStore } from "../stores/connection";
+import { usePaymentStore } from "../stores/payment";
+import { sendHeartbeat } from "./client";
+import { KioskHeartbeatRequest } from "./schemas";
+
+const HEARTBEAT_INTERVAL = 30 * 1000;
+const MAX_HEARTBEAT_BACKOFF = 5 * 60 * 1000;
+
+interface HeartbeatOptions {
+  getRoute: () => string;
+}
+
+const buildHeartbeat = (route: string): KioskHeartbeatRequest => {
+  const payment = usePaymentStore.getState();
+  const connection = useConnectionStore.getState();
+  const runtimeVersion = Constants.expoConfig?.runtimeVersion;
+
+  return {
+    appVersion: Constants.expoConfig?.version ?? "unknown",
+    runtimeVersion: typeof runtimeVersion === "string" ? runtimeVersion : null,
+    platform: Platform.OS,
+    route,
+    cartSize: useCartStore.getState().getTotalItems(),
+    payment: {
+      active: payment.isActive,
+      orderId: payment.orderId,
+      requestId: payment.requestId,
+      method: payment.requestMethod,
+      status: payment.status,
+    },
+    webSocket: {
+      status: connection.wsStatus,
+      changedAt: connection.wsStatusChangedAt
+        ? new Date(connection.wsStatusChangedAt).toISOString()
+        : null,
+    },
+    sentAt: new Date().toISOString(),
+  };
+};
+
+/**
+ * Failed heartbeats back off exponentially up to five minutes and return to
+ * the regular interval after the next successful one.
+ */
+export function startHeartbeat({ getRoute }: HeartbeatOptions): () => void {
+  let stopped = false;
+  let failures = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const beat = async () => {
+    try {
+      await sendHeartbeat(buildHeartbeat(getRoute()));
+      failures = 0;
+    } catch {
+      failures += 1;
+    }
+
+    if (stopped) return;
+
+    const delay =
+      failures === 0
+        ? HEARTBEAT_INTERVAL
+        : Math.min(HEARTBEAT_INTERVAL * 2 ** failures, MAX_HEARTBEAT_BACKOFF);
+    timer = setTimeout(beat, delay);
+  };
+
+  beat();
+
+  return () => {
+    stopped = true;
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+}
@@ -0,0 +1,143 @@
+import { useAuthStore } from "../stores/auth";
+import { useCartStore } from "../stores/cart";
+import { KioskEnvironment, useEnvironmentStore } from "../stores/environment";
+import { useLockStore } from "../stores/lock";
+import { useOrderHistoryStore } from "../stores/order-history";
+import { usePaymentStore } from "../stores/payment";
+import { STAFF_PIN_HASH_PATTERN, useStaffStore } from "../stores/staff";
+import { removeProfileStorage } from "./profile-storage";
+import { queryClient } from "./query-client";
+import { KioskAuth } from "./schemas";
+import { canResumeSession } from "./session";
+import { decodeToken } from "./token";
+
+interface KioskSessionOptions {
+  environment?: KioskEnvironment | null;
+  profileName?: string | null;
+  staffPin?: string | null;
+  staffPinHash?: string | null;
+}
+
+type KioskRoute = "/payment" | "/products";
+
+const getSessionRoute = (): KioskRoute =>
+  usePaymentStore.getState().isActive ? "/payment" : "/products";
+
+// Cached catalog and orders belong to the previous booth
+const resetBoothQueries = () => {
+  queryClient.resetQueries();
+};
+
+// Settings can change after sign-in, so store them before leaving a profile
+const saveActiveProfile = () => {
+  const auth = useAuthStore.getState();
+  if (!auth.authenticated) return;
+
+  auth.updateActiveProfile({
+    environment: useEnvironmentStore.getState().environment,
+    staffPinHash: useStaffStore.getState().pinHash,
+  });
+};
+
+export async function startKioskSession(
+  auth: KioskAuth,
+  {
+    environment = null,
+    profileName = null,
+    staffPin = null,
+    staffPinHash = null,
+  }: KioskSessionOptions = {}
+): Promise<KioskRoute> {
+  saveActiveProfile();
+
+  if (environment) {
+    useEnvironmentStore.getState().setEnvironment(environment);
+  }
+
+  // Logging in again to a saved booth keeps its cart, orders and PIN
+  const savedProfile = useAuthStore
+    .getState()
+    .profiles.find(({ id }) => id === decodeToken(auth.accessToken)?.sub);
+  const resumed = canResumeSession(auth.accessToken) || !!savedProfile;
+
+  const staff = useStaffStore.getState();
+  const pinHash = staffPinHash ?? auth.staffPinHash ?? null;
+  if (staffPin) {
+    await staff.setPin(staffPin);
+  } else if (pinHash && STAFF_PIN_HASH_PATTERN.test(pinHash)) {
+    staff.setPinHash(pinHash);
+  } else if (savedProfile) {
+    staff.setPinHash(savedProfile.staffPinHash);
+  } else if (!resumed) {
+    staff.setPinHash(null);
+  }
+
+  const currentEnvironment = useEnvironmentStore.getState().environment;
+  await useAuthStore.getState().signIn(auth.accessToken, auth.refreshToken, {
+    name: currentEnvironment?.boothName ?? profileName ?? undefined,
+    environment: currentEnvironment,
+    staffPinHash: useStaffStore.getState().pinHash,
+    reset: !resumed,
+  });
+  resetBoothQueries();
+
+  return resumed ? getSessionRoute() : "/products";
+}
+
+export async function switchBoothProfile(
+  profileId: string
+): Promise<KioskRoute> {
+  saveActiveProfile();
+
+  const profile = useAuthStore
+    .getState()
+    .profiles.find(({ id }) => id === profileId);
+  if (!profile) {
+    throw new Error("저장된 부스를 찾을 수 없습니다");
+  }
+
+  // Rejects for signed-out profiles, which must keep the current settings
+  await useAuthStore.getState().switchProfile(profileId);
+  useEnvironmentStore.getState().setEnvironment(profile.environment);
+  useStaffStore.getState().setPinHash(profile.staffPinHash);
+  resetBoothQueries();
+
+  return getSessionRoute();
+}
+
+export function beginAddBoothProfile(): void {
+  saveActiveProfile();
+  useStaffStore.getState().exit();
+  useAuthStore.getState().beginAddProfile();
+}
+
+export async function removeBoothProfile(profileId: string): Promise<void> {
+  useAuthStore.getState().removeProfile(profileId);
+  await removeProfileStorage(profileId);
+}
+
+/**
+ * Disconnects the active booth. When other booth profiles are saved on this
+ * device the kiosk continues with the most recently used one.
+ */
+export async function deregisterKiosk(): Promise<KioskRoute | "/(auth)"> {
+  const { activeProfileId } = useAuthStore.getState();
+
+  useCartStore.getState().clearCart();
+  usePaymentStore.getState().resetPayment();
+  useOrderHistoryStore.getState().clearOrders();
+  useLockStore.getState().unlock();
+  useStaffStore.getState().setPinHash(null);
+  await useAuthStore.getState().signOut();
+
+  if (activeProfileId) {
+    useAuthStore.getState().removeProfile(activeProfileId);
+    await removeProfileStorage(activeProfileId);
+  }
+
+  const [next] = useAuthStore
+    .getState()
+    .profiles.filter(({ token }) => token)
+    .sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+  return next ? switchBoothProfile(next.id) : "/(auth)";
+}
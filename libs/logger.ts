@@ -0,0 +1,171 @@
+import * as FileSystem from "expo-file-system";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogCategory =
+  | "app"
+  | "api"
+  | "auth"
+  | "ws"
+  | "payment"
+  | "navigation"
+  | "control"
+  | "update";
+
+export interface LogEntry {
+  id: number;
+  timestamp: string;
+  level: LogLevel;
+  category: LogCategory;
+  message: string;
+  data?: unknown;
+}
+
+type LogListener = (entries: LogEntry[]) => void;
+
+const MAX_LOG_ENTRIES = 1000;
+const FLUSH_DELAY = 2000;
+const LOG_FILE = `${FileSystem.documentDirectory}logs.json`;
+
+let entries: LogEntry[] = [];
+let nextId = 1;
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let loaded: Promise<void> | null = null;
+const listeners = new Set<LogListener>();
+
+const serialize = (value: unknown): unknown => {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+};
+
+const notify = () => {
+  const snapshot = entries.slice();
+  listeners.forEach((listener) => listener(snapshot));
+};
+
+const flush = async () => {
+  flushTimer = null;
+  try {
+    await FileSystem.writeAsStringAsync(LOG_FILE, JSON.stringify(entries));
+  } catch (error) {
+    if (__DEV__) console.warn("Failed to write logs:", error);
+  }
+};
+
+const scheduleFlush = () => {
+  if (flushTimer) return;
+  flushTimer = setTimeout(flush, FLUSH_DELAY);
+};
+
+/**
+ * Entries recorded before the file has been read are appended after the
+ * persisted ones, so nothing logged during startup is lost.
+ */
+export function initLogger(): Promise<void> {
+  if (loaded) return loaded;
+
+  loaded = (async () => {
+    try {
+      const info = await FileSystem.getInfoAsync(LOG_FILE);
+      if (!info.exists) return;
+
+      const stored = JSON.parse(
+        await FileSystem.readAsStringAsync(LOG_FILE)
+      ) as LogEntry[];
+      if (!Array.isArray(stored)) return;
+
+      const lastId = stored.reduce((max, entry) => Math.max(max, entry.id), 0);
+      const pending = entries.map((entry, index) => ({
+        ...entry,
+        id: lastId + index + 1,
+      }));
+      entries = [...stored, ...pending].slice(-MAX_LOG_ENTRIES);
+      nextId = lastId + pending.length + 1;
+      notify();
+    } catch (error) {
+      if (__DEV__) console.warn("Failed to read logs:", error);
+    }
+  })();
+
+  return loaded;
+}
+
+function log(
+  level: LogLevel,
+  category: LogCategory,
+  message: string,
+  data?: unknown
+): void {
+  const entry: LogEntry = {
+    id: nextId++,
+    timestamp: new Date().toISOString(),
+    level,
+    category,
+    message,
+    ...(data !== undefined && { data: serialize(data) }),
+  };
+
+  entries.push(entry);
+  if (entries.length > MAX_LOG_ENTRIES) {
+    entries.splice(0, entries.length - MAX_LOG_ENTRIES);
+  }
+
+  if (__DEV__) {
+    const print = level === "error" ? console.error : console.log;
+    print(`[${category}] ${message}`, data ?? "");
+  }
+
+  scheduleFlush();
+  notify();
+}
+
+export const logger = {
+  debug: (category: LogCategory, message: string, data?: unknown) =>
+    log("debug", category, message, data),
+  info: (category: LogCategory, message: string, data?: unknown) =>
+    log("info", category, message, data),
+  warn: (category: LogCategory, message: string, data?: unknown) =>
+    log("warn", category, message, data),
+  error: (category: LogCategory, message: string, data?: unknown) =>
+    log("error", category, message, data),
+};
+
+export async function flushLogs(): Promise<void> {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+  }
+  await flush();
+}
+
+export function getLogs(): LogEntry[] {
+  return entries.slice();
+}
+
+export function subscribeLogs(listener: LogListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export async function clearLogs(): Promise<void> {
+  entries = [];
+  notify();
+  await flush();
+}
+
+export function formatLogs(logs: LogEntry[] = entries): string {
+  return logs
+    .map(({ timestamp, level, category, message, data }) => {
+      const line = `${timestamp} ${level.toUpperCase()} [${category}] ${message}`;
+      return data === undefined ? line : `${line} ${JSON.stringify(data)}`;
+    })
+    .join("\n");
+}
+
+export async function exportLogs(): Promise<string> {
+  const uri = `${FileSystem.cacheDirectory}flick-place-logs-${Date.now()}.txt`;
+  await FileSystem.writeAsStringAsync(uri, formatLogs());
+  return uri;
+}
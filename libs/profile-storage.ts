@@ -0,0 +1,59 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { useCartStore } from "../stores/cart";
+import { useConfigStore } from "../stores/config";
+import { useLockStore } from "../stores/lock";
+import { useOrderHistoryStore } from "../stores/order-history";
+import { usePaymentStore } from "../stores/payment";
+import { useShiftStore } from "../stores/shift";
+
+const PROFILE_STORES = [
+  { name: "kiosk-cart", api: useCartStore.persist },
+  { name: "kiosk-payment", api: usePaymentStore.persist },
+  { name: "kiosk-order-history", api: useOrderHistoryStore.persist },
+  { name: "kiosk-config", api: useConfigStore.persist },
+  { name: "kiosk-shift", api: useShiftStore.persist },
+  { name: "kiosk-lock", api: useLockStore.persist },
+];
+
+export const getProfileStorageName = (name: string, profileId: string) =>
+  `${name}:${profileId}`;
+
+const waitForHydration = (api: (typeof PROFILE_STORES)[number]["api"]) =>
+  api.hasHydrated()
+    ? Promise.resolve()
+    : new Promise<void>((resolve) => {
+        const unsubscribe = api.onFinishHydration(() => {
+          unsubscribe();
+          resolve();
+        });
+      });
+
+/**
+ * Points the per-booth stores at the storage keys of the given booth profile
+ * and loads whatever that profile left behind.
+ */
+export async function activateProfileStorage(
+  profileId: string,
+  { reset = false }: { reset?: boolean } = {}
+): Promise<void> {
+  await Promise.all(
+    PROFILE_STORES.map(async ({ name, api }) => {
+      await waitForHydration(api);
+      api.setOptions({ name: getProfileStorageName(name, profileId) });
+      await api.rehydrate();
+    })
+  );
+
+  if (reset) {
+    useCartStore.getState().clearCart();
+    usePaymentStore.getState().resetPayment();
+    useOrderHistoryStore.getState().clearOrders();
+    useLockStore.getState().unlock();
+  }
+}
+
+export async function removeProfileStorage(profileId: string): Promise<void> {
+  await AsyncStorage.multiRemove(
+    PROFILE_STORES.map(({ name }) => getProfileStorageName(name, profileId))
+  );
+}
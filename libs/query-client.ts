@@ -0,0 +1,14 @@
+import { QueryClient } from "@tanstack/react-query";
+import { toApiError } from "./errors";
+
+export const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      retry: (failureCount, error) =>
+        failureCount < 2 && toApiError(error).retryable,
+      staleTime: 1000 * 60 * 5,
+      refetchOnWindowFocus: false,
+      refetchOnReconnect: true,
+    },
+  },
+});
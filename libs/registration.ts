@@ -0,0 +1,129 @@
+import * as Linking from "expo-linking";
+import { z } from "zod";
+import { KioskEnvironment } from "../stores/environment";
+import { STAFF_PIN_HASH_PATTERN } from "../stores/staff";
+
+export interface RegistrationPayload {
+  token: string;
+  environment: KioskEnvironment | null;
+  staffPinHash: string | null;
+}
+
+export interface RegistrationParams {
+  token?: unknown;
+  api?: unknown;
+  ws?: unknown;
+  booth?: unknown;
+  pin?: unknown;
+}
+
+const REGISTRATION_PATH = "register";
+const TOKEN_PATTERN = /^[A-Za-z0-9._~-]{8,512}$/;
+
+const baseUrlSchema = (protocols: string[]) =>
+  z
+    .string()
+    .trim()
+    .url()
+    .refine((value) =>
+      protocols.some((protocol) => value.startsWith(`${protocol}://`))
+    )
+    .transform((value) => value.replace(/\/+$/, ""));
+
+const registrationPayloadSchema = z.object({
+  token: z.string().trim().regex(TOKEN_PATTERN),
+  // Endpoints from a link or QR code must be encrypted
+  apiUrl: baseUrlSchema(["https"]).optional(),
+  wsUrl: baseUrlSchema(["wss"]).optional(),
+  boothName: z.string().trim().min(1).max(50).optional(),
+  staffPinHash: z.string().trim().regex(STAFF_PIN_HASH_PATTERN).optional(),
+});
+
+let registrationLinkPending = false;
+
+const trimSlashes = (value: string | null) =>
+  value ? value.replace(/^\/+|\/+$/g, "") : "";
+
+const toPayload = (value: unknown): RegistrationPayload | null => {
+  const result = registrationPayloadSchema.safeParse(value);
+  if (!result.success) return null;
+
+  const { token, apiUrl, wsUrl, boothName, staffPinHash } = result.data;
+  const hasEnvironment = !!(apiUrl || wsUrl || boothName);
+
+  return {
+    token,
+    environment: hasEnvironment
+      ? {
+          apiUrl: apiUrl ?? null,
+          wsUrl: wsUrl ?? null,
+          boothName: boothName ?? null,
+        }
+      : null,
+    staffPinHash: staffPinHash ?? null,
+  };
+};
+
+export function isRegistrationLink(url: string): boolean {
+  try {
+    const { hostname, path } = Linking.parse(url);
+    return (
+      trimSlashes(hostname) === REGISTRATION_PATH ||
+      trimSlashes(path) === REGISTRATION_PATH
+    );
+  } catch {
+    return false;
+  }
+}
+
+export function parseRegistrationParams(
+  params: RegistrationParams
+): RegistrationPayload | null {
+  const optional = (value: unknown) =>
+    typeof value === "string" && value.trim() ? value : undefined;
+
+  return toPayload({
+    token: params.token,
+    apiUrl: optional(params.api),
+    wsUrl: optional(params.ws),
+    boothName: optional(params.booth),
+    staffPinHash: optional(params.pin),
+  });
+}
+
+/**
+ * Registration QR codes carry a bare token, a `flickplace://register` link
+ * or a JSON object that also provisions the server the kiosk should use.
+ */
+export function parseRegistrationPayload(
+  raw: string
+): RegistrationPayload | null {
+  const value = raw.trim();
+
+  if (value.startsWith("{")) {
+    try {
+      return toPayload(JSON.parse(value));
+    } catch {
+      return null;
+    }
+  }
+
+  if (value.includes("://")) {
+    if (!isRegistrationLink(value)) return null;
+    return parseRegistrationParams(Linking.parse(value).queryParams ?? {});
+  }
+
+  return toPayload({ token: value });
+}
+
+export function markRegistrationLinkPending(): void {
+  registrationLinkPending = true;
+}
+
+export function isRegistrationLinkPending(): boolean {
+  return registrationLinkPending;
+}
+
+export function clearRegistrationLinkPending(): void {
+  registrationLinkPending = false;
+}
@@ -0,0 +1,193 @@
+import { z } from "zod";
+
+export const productStatusSchema = z.enum(["AVAILABLE", "SOLD_OUT", "HIDDEN"]);
+
+export const productCategorySchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  sortOrder: z.number(),
+});
+
+export const productOptionSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  priceDelta: z.number().default(0),
+});
+
+export const productOptionGroupSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  required: z.boolean().default(false),
+  multiple: z.boolean().default(false),
+  maxSelections: z.number().int().positive().nullish(),
+  options: z.array(productOptionSchema).default([]),
+});
+
+export const productBundleItemSchema = z.object({
+  productId: z.number(),
+  productName: z.string(),
+  quantity: z.number().int().positive().default(1),
+});
+
+export const productSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  price: z.number(),
+  description: z.string().nullish(),
+  imageUrl: z.string().nullish(),
+  status: productStatusSchema,
+  stock: z.number(),
+  sortOrder: z.number(),
+  category: productCategorySchema.nullish(),
+  optionGroups: z.array(productOptionGroupSchema).default([]),
+  bundleItems: z.array(productBundleItemSchema).default([]),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const productListSchema = z.array(productSchema);
+
+export const stockAdjustmentReasonSchema = z.enum([
+  "RESTOCK",
+  "WASTE",
+  "CORRECTION",
+]);
+
+export const orderSchema = z.object({
+  id: z.number(),
+  status: z.string().optional(),
+  totalAmount: z.number().optional(),
+});
+
+export const paymentRequestStatusSchema = z.enum([
+  "PENDING",
+  "COMPLETED",
+  "FAILED",
+  "EXPIRED",
+]);
+
+export const paymentRequestMethodSchema = z.enum(["QR_CODE", "STUDENT_ID"]);
+
+export const paymentRequestSchema = z.object({
+  id: z.number(),
+  token: z.string().nullish(),
+  status: paymentRequestStatusSchema.optional(),
+  method: paymentRequestMethodSchema.optional(),
+  expiresAt: z.string().nullish(),
+});
+
+export const orderItemOptionSchema = z.object({
+  optionId: z.number(),
+  name: z.string(),
+  priceDelta: z.number().default(0),
+});
+
+export const orderItemSchema = z.object({
+  productId: z.number(),
+  productName: z.string(),
+  price: z.number(),
+  quantity: z.number(),
+  options: z.array(orderItemOptionSchema).default([]),
+});
+
+export const orderDetailSchema = z.object({
+  id: z.number(),
+  status: z.string(),
+  totalAmount: z.number(),
+  items: z.array(orderItemSchema).default([]),
+  paymentMethod: paymentRequestMethodSchema.nullish(),
+  createdAt: z.string(),
+  paidAt: z.string().nullish(),
+});
+
+export const orderHistorySchema = z.array(orderDetailSchema);
+
+export const kioskAuthSchema = z.object({
+  accessToken: z.string().min(1),
+  refreshToken: z.string().nullish(),
+  staffPinHash: z.string().nullish(),
+});
+
+export type ProductStatus = z.infer<typeof productStatusSchema>;
+export type Product = z.infer<typeof productSchema>;
+export type ProductCategory = z.infer<typeof productCategorySchema>;
+export type ProductOption = z.infer<typeof productOptionSchema>;
+export type ProductOptionGroup = z.infer<typeof productOptionGroupSchema>;
+export type ProductBundleItem = z.infer<typeof productBundleItemSchema>;
+export type StockAdjustmentReason = z.infer<typeof stockAdjustmentReasonSchema>;
+export type Order = z.infer<typeof orderSchema>;
+export type PaymentRequestStatus = z.infer<typeof paymentRequestStatusSchema>;
+export type PaymentRequestMethod = z.infer<typeof paymentRequestMethodSchema>;
+export type PaymentRequest = z.infer<typeof paymentRequestSchema>;
+export type OrderItemOption = z.infer<typeof orderItemOptionSchema>;
+export type OrderItem = z.infer<typeof orderItemSchema>;
+export type OrderDetail = z.infer<typeof orderDetailSchema>;
+export type KioskAuth = z.infer<typeof kioskAuthSchema>;
+
+export interface CreateOrderItemRequest {
+  productId: number;
+  quantity: number;
+  optionIds: number[];
+}
+
+export interface CreateOrderRequest {
+  items: CreateOrderItemRequest[];
+}
+
+export interface StockAdjustmentRequest {
+  quantity: number;
+  reason: StockAdjustmentReason;
+}
+
+export interface KioskLoginRequest {
+  username: string;
+  password: string;
+}
+
+export interface KioskHeartbeatRequest {
+  appVersion: string;
+  runtimeVersion: string | null;
+  platform: string;
+  route: string;
+  cartSize: number;
+  payment: {
+    active: boolean;
+    orderId: number | null;
+    requestId: number | null;
+    method: PaymentRequestMethod | null;
+    status: PaymentRequestStatus | null;
+  };
+  webSocket: {
+    status: string;
+    changedAt: string | null;
+  };
+  sentAt: string;
+}
+
+export const kioskControlMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("LOCK"), reason: z.string().nullish() }),
+  z.object({ type: z.literal("UNLOCK") }),
+  z.object({ type: z.literal("DEREGISTER") }),
+  z.object({ type: z.literal("CONFIG_UPDATED") }),
+]);
+
+export const kioskConfigSchema = z.object({
+  paymentTimeout: z.number().int().positive().default(900),
+  notificationDuration: z.number().int().positive().default(3000),
+  maxReconnectAttempts: z.number().int().nonnegative().default(3),
+  completeRedirectDelay: z.number().int().positive().default(10000),
+  productColumns: z.number().int().min(1).max(6).default(3),
+  features: z
+    .object({
+      qrPayment: z.boolean().default(true),
+      studentIdPayment: z.boolean().default(true),
+    })
+    .refine(
+      (features) => features.qrPayment || features.studentIdPayment,
+      "결제 수단이 하나 이상 필요합니다"
+    )
+    .default({}),
+});
+
+export type KioskControlMessage = z.infer<typeof kioskControlMessageSchema>;
+export type KioskConfig = z.infer<typeof kioskConfigSchema>;
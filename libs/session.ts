@@ -0,0 +1,54 @@
+import { decodeToken } from "./token";
+
+export type SessionExpiredReason = "REFRESH_FAILED" | "UNAUTHORIZED";
+
+export type SessionEvent =
+  | {
+      type: "expired";
+      reason: SessionExpiredReason;
+      subject: string | null;
+      expiredAt: number;
+    }
+  | { type: "dismissed" };
+
+type SessionListener = (event: SessionEvent) => void;
+
+const listeners = new Set<SessionListener>();
+let expiredSubject: string | null = null;
+
+const emit = (event: SessionEvent) => {
+  listeners.forEach((listener) => listener(event));
+};
+
+export function subscribeSession(listener: SessionListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function emitSessionExpired(
+  reason: SessionExpiredReason,
+  token: string | null
+): void {
+  const subject = token ? (decodeToken(token)?.sub ?? null) : null;
+  expiredSubject = subject;
+
+  emit({ type: "expired", reason, subject, expiredAt: Date.now() });
+}
+
+export function dismissSessionExpired(): void {
+  emit({ type: "dismissed" });
+}
+
+/**
+ * Whether the new token belongs to the same kiosk as the expired session,
+ * in which case the persisted cart and payment can be carried over.
+ */
+export function canResumeSession(token: string): boolean {
+  const subject = expiredSubject;
+  expiredSubject = null;
+
+  if (!subject) return false;
+  return decodeToken(token)?.sub === subject;
+}
@@ -0,0 +1,138 @@
+import * as FileSystem from "expo-file-system";
+import { OrderItem, PaymentRequestMethod } from "./schemas";
+
+export interface ShiftOrder {
+  orderId: number;
+  totalAmount: number;
+  paymentMethod: PaymentRequestMethod | null;
+  items: OrderItem[];
+  completedAt: string;
+}
+
+export interface ShiftEvent {
+  orderId: number;
+  amount: number;
+  at: string;
+}
+
+export interface Shift {
+  id: string;
+  openedAt: string;
+  orders: ShiftOrder[];
+  cancellations: ShiftEvent[];
+  expirations: ShiftEvent[];
+}
+
+interface SalesTotal {
+  count: number;
+  amount: number;
+}
+
+export interface ProductSales {
+  productId: number;
+  productName: string;
+  quantity: number;
+  amount: number;
+}
+
+export interface ShiftReport {
+  shiftId: string;
+  openedAt: string;
+  closedAt: string | null;
+  sales: SalesTotal;
+  byMethod: Record<PaymentRequestMethod, SalesTotal>;
+  byProduct: ProductSales[];
+  cancellations: SalesTotal;
+  expirations: SalesTotal;
+}
+
+export const PAYMENT_METHOD_NAMES: Record<PaymentRequestMethod, string> = {
+  QR_CODE: "QR 결제",
+  STUDENT_ID: "학번 결제",
+};
+
+const sum = (amounts: number[]): SalesTotal => ({
+  count: amounts.length,
+  amount: amounts.reduce((total, amount) => total + amount, 0),
+});
+
+export function buildShiftReport(
+  shift: Shift,
+  closedAt: string | null = null
+): ShiftReport {
+  const products = new Map<number, ProductSales>();
+
+  shift.orders.forEach(({ items }) => {
+    items.forEach(({ productId, productName, price, quantity }) => {
+      const sales = products.get(productId) ?? {
+        productId,
+        productName,
+        quantity: 0,
+        amount: 0,
+      };
+      sales.quantity += quantity;
+      sales.amount += price * quantity;
+      products.set(productId, sales);
+    });
+  });
+
+  const byMethod = (method: PaymentRequestMethod) =>
+    sum(
+      shift.orders
+        .filter(({ paymentMethod }) => paymentMethod === method)
+        .map(({ totalAmount }) => totalAmount)
+    );
+
+  return {
+    shiftId: shift.id,
+    openedAt: shift.openedAt,
+    closedAt,
+    sales: sum(shift.orders.map(({ totalAmount }) => totalAmount)),
+    byMethod: {
+      QR_CODE: byMethod("QR_CODE"),
+      STUDENT_ID: byMethod("STUDENT_ID"),
+    },
+    byProduct: Array.from(products.values()).sort(
+      (a, b) => b.amount - a.amount
+    ),
+    cancellations: sum(shift.cancellations.map(({ amount }) => amount)),
+    expirations: sum(shift.expirations.map(({ amount }) => amount)),
+  };
+}
+
+const csvCell = (value: string | number) =>
+  typeof value === "number" ? String(value) : `"${value.replace(/"/g, '""')}"`;
+
+export function formatShiftReportCsv(report: ShiftReport): string {
+  const rows: (string | number)[][] = [
+    ["구분", "항목", "건수/수량", "금액"],
+    ["영업", "시작", report.openedAt, ""],
+    ["영업", "마감", report.closedAt ?? "", ""],
+    ["합계", "결제 완료", report.sales.count, report.sales.amount],
+    ...(Object.keys(report.byMethod) as PaymentRequestMethod[]).map(
+      (method) => [
+        "결제 수단",
+        PAYMENT_METHOD_NAMES[method],
+        report.byMethod[method].count,
+        report.byMethod[method].amount,
+      ]
+    ),
+    ...report.byProduct.map(({ productName, quantity, amount }) => [
+      "상품",
+      productName,
+      quantity,
+      amount,
+    ]),
+    ["미결제", "취소", report.cancellations.count, report.cancellations.amount],
+    ["미결제", "만료", report.expirations.count, report.expirations.amount],
+  ];
+
+  return rows.map((row) => row.map(csvCell).join(",")).join("\n");
+}
+
+export async function exportShiftReport(report: ShiftReport): Promise<string> {
+  const date = (report.closedAt ?? report.openedAt).replace(/[:.]/g, "-");
+  const uri = `${FileSystem.documentDirectory}shift-report-${date}.csv`;
+  await FileSystem.writeAsStringAsync(uri, formatShiftReportCsv(report));
+  return uri;
+}
@@ -0,0 +1,23 @@
+interface TokenPayload {
+  sub?: string;
+  exp?: number;
+  iat?: number;
+}
+
+export function decodeToken(token: string): TokenPayload | null {
+  const [, payload] = token.split(".");
+  if (!payload) return null;
+
+  try {
+    const base64 = payload.replace(/-/g, "+").replace(/_/g, "/");
+    const padded = base64.padEnd(Math.ceil(base64.length / 4) * 4, "=");
+    return JSON.parse(atob(padded)) as TokenPayload;
+  } catch {
+    return null;
+  }
+}
+
+export function getTokenExpiry(token: string): number | null {
+  const payload = decodeToken(token);
+  return typeof payload?.exp === "number" ? payload.exp * 1000 : null;
+}
@@ -0,0 +1,131 @@
+import * as Updates from "expo-updates";
+import { useCartStore } from "../stores/cart";
+import { usePaymentStore } from "../stores/payment";
+import { useStaffStore } from "../stores/staff";
+import { useUpdateStore } from "../stores/update";
+import { getIdleTime } from "./activity";
+import { flushLogs, logger } from "./logger";
+
+const UPDATE_CHECK_INTERVAL = 30 * 60 * 1000;
+const UPDATE_TICK_INTERVAL = 15 * 1000;
+const IDLE_RELOAD_DELAY = 60 * 1000;
+
+interface UpdateManagerOptions {
+  getRoute: () => string;
+}
+
+/**
+ * The kiosk is idle when nobody is ordering: the products screen is showing
+ * with an empty cart, no payment in progress, staff mode closed and nothing
+ * touched or left open for a minute.
+ */
+export function isKioskIdle(route: string): boolean {
+  return (
+    route === "/products" &&
+    getIdleTime() >= IDLE_RELOAD_DELAY &&
+    useCartStore.getState().items.length === 0 &&
+    !usePaymentStore.getState().isActive &&
+    !useStaffStore.getState().active
+  );
+}
+
+export async function checkForUpdates(): Promise<void> {
+  const updates = useUpdateStore.getState();
+
+  if (!Updates.isEnabled) {
+    updates.setDisabled();
+    return;
+  }
+  if (["CHECKING", "DOWNLOADING", "READY"].includes(updates.status)) return;
+
+  updates.setChecking();
+
+  try {
+    const result = await Updates.checkForUpdateAsync();
+    if (!result.isAvailable) {
+      updates.setUpToDate();
+      return;
+    }
+
+    updates.setDownloading();
+    const fetched = await Updates.fetchUpdateAsync();
+    if (!fetched.isNew && !fetched.isRollBackToEmbedded) {
+      updates.setUpToDate();
+      return;
+    }
+
+    const manifest = fetched.manifest;
+    updates.setReady(
+      manifest?.id ?? null,
+      manifest && "createdAt" in manifest ? manifest.createdAt : null
+    );
+    logger.info("update", "Update downloaded", {
+      updateId: manifest?.id ?? null,
+      rollBack: fetched.isRollBackToEmbedded,
+    });
+  } catch (error) {
+    logger.warn("update", "Update check failed", error);
+    updates.setError(
+      error instanceof Error ? error.message : "업데이트 확인 실패"
+    );
+  }
+}
+
+export async function applyUpdate(): Promise<void> {
+  logger.info("update", "Reloading to apply update", {
+    updateId: useUpdateStore.getState().pendingUpdateId,
+  });
+  await flushLogs();
+  await Updates.reloadAsync();
+}
+
+/**
+ * Checks for updates periodically and downloads them in the background.
+ * A downloaded update is applied only after the kiosk has stayed idle for a
+ * minute, so a reload never interrupts an order.
+ */
+export function startUpdateManager({
+  getRoute,
+}: UpdateManagerOptions): () => void {
+  if (!Updates.isEnabled) {
+    useUpdateStore.getState().setDisabled();
+    return () => {};
+  }
+
+  let stopped = false;
+  let idleSince: number | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const tick = async () => {
+    const { status, checkedAt } = useUpdateStore.getState();
+    const now = Date.now();
+
+    if (status === "READY") {
+      idleSince = isKioskIdle(getRoute()) ? (idleSince ?? now) : null;
+
+      if (idleSince !== null && now - idleSince >= IDLE_RELOAD_DELAY) {
+        try {
+          await applyUpdate();
+        } catch (error) {
+          logger.error("update", "Failed to reload for update", error);
+        }
+      }
+    } else if (checkedAt === null || now - checkedAt >= UPDATE_CHECK_INTERVAL) {
+      await checkForUpdates();
+    }
+
+    if (!stopped) {
+      timer = setTimeout(tick, UPDATE_TICK_INTERVAL);
+    }
+  };
+
+  tick();
+
+  return () => {
+    stopped = true;
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+}
@@ -0,0 +1,92 @@
+import { create } from "zustand";
+import { persist, createJSONStorage } from "zustand/middleware";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+export interface AttemptState {
+  failures: number;
+  lockouts: number;
+  blockedUntil: number | null;
+  lockedOut: boolean;
+  recordFailure: () => void;
+  recordSuccess: () => void;
+  blockFor: (duration: number) => void;
+  getRemainingTime: () => number;
+}
+
+const ATTEMPT_DELAYS = [0, 0, 5000, 15000, 30000];
+export const MAX_ATTEMPT_FAILURES = ATTEMPT_DELAYS.length;
+const LOCKOUT_DURATION = 5 * 60 * 1000;
+const MAX_LOCKOUT_DURATION = 60 * 60 * 1000;
+
+/**
+ * Creates a persisted throttle that delays repeated failures and locks out
+ * for a doubling duration once the failures run out.
+ */
+export const createAttemptStore = (name: string) =>
+  create<AttemptState>()(
+    persist(
+      (set, get) => ({
+        failures: 0,
+        lockouts: 0,
+        blockedUntil: null,
+        lockedOut: false,
+
+        recordFailure: () => {
+          const failures = get().failures + 1;
+
+          if (failures >= MAX_ATTEMPT_FAILURES) {
+            const { lockouts } = get();
+            const duration = Math.min(
+              LOCKOUT_DURATION * 2 ** lockouts,
+              MAX_LOCKOUT_DURATION
+            );
+            set({
+              failures: 0,
+              lockouts: lockouts + 1,
+              blockedUntil: Date.now() + duration,
+              lockedOut: true,
+            });
+            return;
+          }
+
+          const delay = ATTEMPT_DELAYS[failures - 1];
+          set({
+            failures,
+            blockedUntil: delay > 0 ? Date.now() + delay : null,
+            lockedOut: false,
+          });
+        },
+
+        recordSuccess: () => {
+          set({
+            failures: 0,
+            lockouts: 0,
+            blockedUntil: null,
+            lockedOut: false,
+          });
+        },
+
+        blockFor: (duration) => {
+          const blockedUntil = Date.now() + duration;
+          if ((get().blockedUntil ?? 0) >= blockedUntil) return;
+          set({ blockedUntil, lockedOut: true });
+        },
+
+        getRemainingTime: () => {
+          const { blockedUntil } = get();
+          return blockedUntil ? Math.max(0, blockedUntil - Date.now()) : 0;
+        },
+      }),
+      {
+        name,
+        storage: createJSONStorage(() => AsyncStorage),
+      }
+    )
+  );
+
+export const formatRemainingTime = (remaining: number) => {
+  const totalSeconds = Math.ceil(remaining / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+};
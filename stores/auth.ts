@@ -1,54 +1,143 @@
 import { create } from "zustand";
 import { persist, createJSONStorage } from "zustand/middleware";
-import * as SecureStore from "expo-secure-store";
+import axios, { isAxiosError } from "axios";
+import * as Crypto from "expo-crypto";
+import { activateProfileStorage } from "../libs/profile-storage";
+import { kioskAuthSchema } from "../libs/schemas";
+import { secureStorage } from "../libs/secure-storage";
+import { logger } from "../libs/logger";
+import { emitSessionExpired } from "../libs/session";
+import { decodeToken, getTokenExpiry } from "../libs/token";
+import { getApiUrl, KioskEnvironment } from "./environment";
+
+export interface BoothProfile {
+  id: string;
+  name: string;
+  token: string | null;
+  refreshToken: string | null;
+  environment: KioskEnvironment | null;
+  staffPinHash: string | null;
+  lastUsedAt: number;
+}
+
+type BoothProfileSettings = Partial<
+  Pick<BoothProfile, "name" | "environment" | "staffPinHash">
+>;
+
+interface SignInOptions extends BoothProfileSettings {
+  reset?: boolean;
+}
 
 interface AuthState {
+  profiles: BoothProfile[];
+  activeProfileId: string | null;
+  addingProfile: boolean;
   token: string | null;
+  refreshToken: string | null;
+  expiresAt: number | null;
   authenticated: boolean;
   initialized: boolean;
   loading: boolean;
+  refreshing: boolean;
   error: string | null;
 }
 
 interface AuthActions {
   init: () => Promise<void>;
-  signIn: (token: string) => Promise<void>;
+  signIn: (
+    token: string,
+    refreshToken?: string | null,
+    options?: SignInOptions
+  ) => Promise<void>;
   signOut: () => Promise<void>;
+  switchProfile: (profileId: string) => Promise<void>;
+  updateActiveProfile: (settings: BoothProfileSettings) => void;
+  removeProfile: (profileId: string) => void;
+  beginAddProfile: () => void;
+  refresh: () => Promise<string>;
+  isExpiringSoon: () => boolean;
   resetError: () => void;
 }
 
-const secureStorage = {
-  getItem: async (name: string): Promise<string | null> => {
-    try {
-      return await SecureStore.getItemAsync(name);
-    } catch {
-      return null;
-    }
-  },
-  setItem: async (name: string, value: string): Promise<void> => {
-    await SecureStore.setItemAsync(name, value);
-  },
-  removeItem: async (name: string): Promise<void> => {
-    await SecureStore.deleteItemAsync(name);
-  },
+const REFRESH_MARGIN = 5 * 60 * 1000;
+const REFRESH_RETRY_DELAY = 30 * 1000;
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+let refreshPromise: Promise<string> | null = null;
+
+const clearRefreshTimer = () => {
+  if (refreshTimer) {
+    clearTimeout(refreshTimer);
+    refreshTimer = null;
+  }
+};
+
+const scheduleRefresh = (delay: number) => {
+  clearRefreshTimer();
+
+  refreshTimer = setTimeout(
+    () => {
+      refreshTimer = null;
+      useAuthStore
+        .getState()
+        .refresh()
+        .catch(() => {});
+    },
+    Math.min(Math.max(delay, 0), MAX_TIMER_DELAY)
+  );
 };
 
+const scheduleRefreshBeforeExpiry = (expiresAt: number | null) => {
+  if (expiresAt === null) {
+    clearRefreshTimer();
+    return;
+  }
+
+  scheduleRefresh(expiresAt - REFRESH_MARGIN - Date.now());
+};
+
+const updateProfile = (
+  profiles: BoothProfile[],
+  profileId: string | null,
+  update: Partial<BoothProfile>
+) =>
+  profiles.map((profile) =>
+    profile.id === profileId ? { ...profile, ...update } : profile
+  );
+
 export const useAuthStore = create<AuthState & AuthActions>()(
   persist(
     (set, get) => ({
+      profiles: [],
+      activeProfileId: null,
+      addingProfile: false,
       token: null,
+      refreshToken: null,
+      expiresAt: null,
       authenticated: false,
       initialized: false,
       loading: false,
+      refreshing: false,
       error: null,
 
       init: async () => {
         try {
           set({ loading: true, error: null });
 
-          const state = get();
-          if (state.token) {
-            set({ authenticated: true });
+          const { profiles, activeProfileId } = get();
+          const profile = profiles.find(({ id }) => id === activeProfileId);
+          if (profile?.token) {
+            await activateProfileStorage(profile.id);
+
+            const expiresAt = getTokenExpiry(profile.token);
+            set({
+              token: profile.token,
+              refreshToken: profile.refreshToken,
+              authenticated: true,
+              expiresAt,
+            });
+            scheduleRefreshBeforeExpiry(expiresAt);
           }
 
           set({ initialized: true, loading: false });
@@ -61,10 +150,51 @@ export const useAuthStore = create<AuthState & AuthActions>()(
         }
       },
 
-      signIn: async (token) => {
+      signIn: async (
+        token,
+        refreshToken = null,
+        { reset = false, ...settings } = {}
+      ) => {
         try {
           set({ loading: true, error: null });
-          set({ token, authenticated: true, loading: false });
+
+          const { profiles } = get();
+          const profileId = decodeToken(token)?.sub ?? Crypto.randomUUID();
+          const existing = profiles.find(({ id }) => id === profileId);
+          const profile: BoothProfile = {
+            id: profileId,
+            name:
+              settings.name ?? existing?.name ?? `부스 ${profiles.length + 1}`,
+            token,
+            refreshToken,
+            environment:
+              settings.environment !== undefined
+                ? settings.environment
+                : (existing?.environment ?? null),
+            staffPinHash:
+              settings.staffPinHash !== undefined
+                ? settings.staffPinHash
+                : (existing?.staffPinHash ?? null),
+            lastUsedAt: Date.now(),
+          };
+
+          clearRefreshTimer();
+          await activateProfileStorage(profileId, { reset });
+
+          const expiresAt = getTokenExpiry(token);
+          set({
+            profiles: existing
+              ? updateProfile(profiles, profileId, profile)
+              : [...profiles, profile],
+            activeProfileId: profileId,
+            addingProfile: false,
+            token,
+            refreshToken,
+            expiresAt,
+            authenticated: true,
+            loading: false,
+          });
+          scheduleRefreshBeforeExpiry(expiresAt);
         } catch (error) {
           set({
             loading: false,
@@ -74,10 +204,27 @@ export const useAuthStore = create<AuthState & AuthActions>()(
         }
       },
 
+      // Keeps the booth profile so its name and settings survive an expired
+      // session; deregistration removes it separately
       signOut: async () => {
         try {
           set({ loading: true, error: null });
-          set({ token: null, authenticated: false, loading: false });
+          clearRefreshTimer();
+
+          const { profiles, activeProfileId } = get();
+          set({
+            profiles: updateProfile(profiles, activeProfileId, {
+              token: null,
+              refreshToken: null,
+            }),
+            activeProfileId: null,
+            addingProfile: false,
+            token: null,
+            refreshToken: null,
+            expiresAt: null,
+            authenticated: false,
+            loading: false,
+          });
         } catch (error) {
           set({
             loading: false,
@@ -87,6 +234,142 @@ export const useAuthStore = create<AuthState & AuthActions>()(
         }
       },
 
+      switchProfile: async (profileId) => {
+        const profile = get().profiles.find(({ id }) => id === profileId);
+        if (!profile) {
+          throw new Error("저장된 부스를 찾을 수 없습니다");
+        }
+        if (!profile.token) {
+          throw new Error("다시 로그인해야 하는 부스입니다");
+        }
+
+        clearRefreshTimer();
+        await activateProfileStorage(profileId);
+
+        const expiresAt = getTokenExpiry(profile.token);
+        set((state) => ({
+          profiles: updateProfile(state.profiles, profileId, {
+            lastUsedAt: Date.now(),
+          }),
+          activeProfileId: profileId,
+          addingProfile: false,
+          token: profile.token,
+          refreshToken: profile.refreshToken,
+          expiresAt,
+          authenticated: true,
+        }));
+        scheduleRefreshBeforeExpiry(expiresAt);
+        logger.info("auth", "Switched booth profile", { profileId });
+      },
+
+      updateActiveProfile: (settings) => {
+        set((state) => ({
+          profiles: updateProfile(
+            state.profiles,
+            state.activeProfileId,
+            settings
+          ),
+        }));
+      },
+
+      removeProfile: (profileId) => {
+        if (profileId === get().activeProfileId) return;
+
+        set((state) => ({
+          profiles: state.profiles.filter(({ id }) => id !== profileId),
+        }));
+      },
+
+      // Leaves the active profile in place so the login screen can return to it
+      beginAddProfile: () => {
+        clearRefreshTimer();
+        set({
+          addingProfile: true,
+          token: null,
+          refreshToken: null,
+          expiresAt: null,
+          authenticated: false,
+        });
+      },
+
+      refresh: () => {
+        if (refreshPromise) return refreshPromise;
+
+        const { token, refreshToken, activeProfileId } = get();
+        if (!token) {
+          return Promise.reject(new Error("로그인 정보가 없습니다"));
+        }
+
+        set({ refreshing: true });
+
+        refreshPromise = (async () => {
+          try {
+            const response = await axios.post(
+              `${getApiUrl()}/kiosks/refresh`,
+              { refreshToken },
+              {
+                headers: { Authorization: `Bearer ${token}` },
+                timeout: 10000,
+              }
+            );
+
+            const parsed = kioskAuthSchema.safeParse(response.data);
+            if (!parsed.success) {
+              throw new Error("토큰 갱신 실패");
+            }
+
+            const { accessToken, refreshToken: nextRefreshToken } = parsed.data;
+
+            // The kiosk switched booths while the request was in flight
+            if (get().activeProfileId !== activeProfileId) {
+              set((state) => ({
+                profiles: updateProfile(state.profiles, activeProfileId, {
+                  token: accessToken,
+                  refreshToken: nextRefreshToken ?? refreshToken,
+                }),
+              }));
+              return accessToken;
+            }
+
+            const expiresAt = getTokenExpiry(accessToken);
+            set((state) => ({
+              profiles: updateProfile(state.profiles, activeProfileId, {
+                token: accessToken,
+                refreshToken: nextRefreshToken ?? refreshToken,
+              }),
+              token: accessToken,
+              refreshToken: nextRefreshToken ?? refreshToken,
+              expiresAt,
+            }));
+            scheduleRefreshBeforeExpiry(expiresAt);
+            logger.info("auth", "Access token refreshed", { expiresAt });
+
+            return accessToken;
+          } catch (error) {
+            // Keep the session when the server is unreachable and try again later
+            if (isAxiosError(error) && !error.response) {
+              logger.warn("auth", "Token refresh deferred while offline");
+              scheduleRefresh(REFRESH_RETRY_DELAY);
+            } else if (get().activeProfileId === activeProfileId) {
+              logger.error("auth", "Token refresh failed", error);
+              emitSessionExpired("REFRESH_FAILED", token);
+              await get().signOut();
+            }
+            throw error;
+          } finally {
+            refreshPromise = null;
+            set({ refreshing: false });
+          }
+        })();
+
+        return refreshPromise;
+      },
+
+      isExpiringSoon: () => {
+        const { expiresAt } = get();
+        return expiresAt !== null && expiresAt - Date.now() <= REFRESH_MARGIN;
+      },
+
       resetError: () => set({ error: null }),
     }),
     {
@@ -97,7 +380,42 @@ export const useAuthStore = create<AuthState & AuthActions>()(
           state.init();
         }
       },
-      partialize: (state) => ({ token: state.token }),
+      version: 1,
+      migrate: (persisted, version) => {
+        const state = persisted as {
+          token?: string | null;
+          refreshToken?: string | null;
+        };
+
+        // Version 0 stored a single session without profiles
+        if (version === 0) {
+          if (!state?.token) {
+            return { profiles: [], activeProfileId: null };
+          }
+
+          const profileId = decodeToken(state.token)?.sub ?? "default";
+          return {
+            profiles: [
+              {
+                id: profileId,
+                name: "부스 1",
+                token: state.token,
+                refreshToken: state.refreshToken ?? null,
+                environment: null,
+                staffPinHash: null,
+                lastUsedAt: Date.now(),
+              },
+            ],
+            activeProfileId: profileId,
+          };
+        }
+
+        return persisted as Pick<AuthState, "profiles" | "activeProfileId">;
+      },
+      partialize: (state) => ({
+        profiles: state.profiles,
+        activeProfileId: state.activeProfileId,
+      }),
     }
   )
 );
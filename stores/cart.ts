@@ -1,52 +1,96 @@
 import { create } from "zustand";
 import { persist, createJSONStorage } from "zustand/middleware";
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Crypto from "expo-crypto";
+
+export interface CartItemOption {
+  groupId: number;
+  optionId: number;
+  name: string;
+  priceDelta: number;
+}
+
+export interface CartItemComponent {
+  productId: number;
+  name: string;
+  quantity: number;
+}
 
 interface CartItem {
+  key: string;
   id: number;
   name: string;
   price: number;
   quantity: number;
+  options: CartItemOption[];
+  components: CartItemComponent[];
 }
 
 interface CartState {
   items: CartItem[];
-  addItem: (product: { id: number; name: string; price: number }) => void;
-  updateQuantity: (id: number, quantity: number) => void;
+  checkoutKey: string | null;
+  addItem: (
+    product: {
+      id: number;
+      name: string;
+      price: number;
+      components?: CartItemComponent[];
+    },
+    quantity?: number,
+    options?: CartItemOption[]
+  ) => void;
+  updateQuantity: (key: string, quantity: number) => void;
   clearCart: () => void;
+  getCheckoutKey: () => string;
+  clearCheckoutKey: () => void;
   getTotalAmount: () => number;
   getTotalItems: () => number;
+  getProductQuantity: (productId: number) => number;
 }
 
+// The same product with a different option combination is a separate line
+export const getCartItemKey = (productId: number, options: CartItemOption[]) =>
+  [
+    productId,
+    ...options.map(({ optionId }) => optionId).sort((a, b) => a - b),
+  ].join(":");
+
 export const useCartStore = create<CartState>()(
   persist(
     (set, get) => ({
       items: [],
+      checkoutKey: null,
 
-      addItem: (product) => {
+      addItem: (product, quantity = 1, options = []) => {
         set((state) => {
-          const productId = product.id;
-          const existingItem = state.items.find(
-            (item) => item.id === productId
-          );
+          const key = getCartItemKey(product.id, options);
+          const existingItem = state.items.find((item) => item.key === key);
 
           if (existingItem) {
             return {
+              checkoutKey: null,
               items: state.items.map((item) =>
-                item.id === productId
-                  ? { ...item, quantity: item.quantity + 1 }
+                item.key === key
+                  ? { ...item, quantity: item.quantity + quantity }
                   : item
               ),
             };
           } else {
             return {
+              checkoutKey: null,
               items: [
                 ...state.items,
                 {
-                  id: productId,
+                  key,
+                  id: product.id,
                   name: product.name,
-                  price: product.price,
-                  quantity: 1,
+                  price: options.reduce(
+                    (price, option) => price + option.priceDelta,
+                    product.price
+                  ),
+                  quantity,
+                  options,
+                  components: product.components ?? [],
                 },
               ],
             };
@@ -54,16 +98,18 @@ export const useCartStore = create<CartState>()(
         });
       },
 
-      updateQuantity: (id, quantity) => {
+      updateQuantity: (key, quantity) => {
         set((state) => {
           if (quantity <= 0) {
             return {
-              items: state.items.filter((item) => item.id !== id),
+              checkoutKey: null,
+              items: state.items.filter((item) => item.key !== key),
             };
           } else {
             return {
+              checkoutKey: null,
               items: state.items.map((item) =>
-                item.id === id ? { ...item, quantity } : item
+                item.key === key ? { ...item, quantity } : item
               ),
             };
           }
@@ -71,7 +117,21 @@ export const useCartStore = create<CartState>()(
       },
 
       clearCart: () => {
-        set({ items: [] });
+        set({ items: [], checkoutKey: null });
+      },
+
+      getCheckoutKey: () => {
+        const { checkoutKey } = get();
+        if (checkoutKey) return checkoutKey;
+
+        const nextKey = Crypto.randomUUID();
+        set({ checkoutKey: nextKey });
+        return nextKey;
+      },
+
+      // A rejected order is final, so checking out again needs a new key
+      clearCheckoutKey: () => {
+        set({ checkoutKey: null });
       },
 
       getTotalAmount: () => {
@@ -84,11 +144,49 @@ export const useCartStore = create<CartState>()(
       getTotalItems: () => {
         return get().items.reduce((total, item) => total + item.quantity, 0);
       },
+
+      // Counts units sold on their own and as part of bundles
+      getProductQuantity: (productId) => {
+        return get().items.reduce((total, item) => {
+          const bundled = item.components
+            .filter((component) => component.productId === productId)
+            .reduce((sum, component) => sum + component.quantity, 0);
+          return (
+            total +
+            (item.id === productId ? item.quantity : 0) +
+            bundled * item.quantity
+          );
+        }, 0);
+      },
     }),
     {
       name: "kiosk-cart",
+      version: 2,
       storage: createJSONStorage(() => AsyncStorage),
-      partialize: (state) => ({ items: state.items }),
+      // Carts saved before options and bundles existed lack their fields
+      migrate: (persisted, version) => {
+        const state = persisted as Partial<CartState>;
+        if (version < 2 && state.items) {
+          state.items = state.items.map((item) => ({
+            ...item,
+            key: item.key ?? getCartItemKey(item.id, []),
+            options: item.options ?? [],
+            components: item.components ?? [],
+          }));
+        }
+        return state as CartState;
+      },
+      partialize: (state) => ({
+        items: state.items,
+        checkoutKey: state.checkoutKey,
+      }),
+      // Switching booth profiles must not carry the previous cart over
+      merge: (persisted, current) => ({
+        ...current,
+        items: [],
+        checkoutKey: null,
+        ...(persisted as Partial<CartState>),
+      }),
     }
   )
 );
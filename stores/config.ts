@@ -0,0 +1,49 @@
+import { create } from "zustand";
+import { persist, createJSONStorage } from "zustand/middleware";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { KioskConfig, kioskConfigSchema } from "../libs/schemas";
+
+export const DEFAULT_KIOSK_CONFIG: KioskConfig = kioskConfigSchema.parse({});
+
+interface ConfigState {
+  config: KioskConfig;
+  fetchedAt: number | null;
+  setConfig: (config: KioskConfig) => void;
+  resetConfig: () => void;
+}
+
+export const useConfigStore = create<ConfigState>()(
+  persist(
+    (set) => ({
+      config: DEFAULT_KIOSK_CONFIG,
+      fetchedAt: null,
+
+      setConfig: (config) => {
+        set({ config, fetchedAt: Date.now() });
+      },
+
+      resetConfig: () => {
+        set({ config: DEFAULT_KIOSK_CONFIG, fetchedAt: null });
+      },
+    }),
+    {
+      name: "kiosk-config",
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({
+        config: state.config,
+        fetchedAt: state.fetchedAt,
+      }),
+      // Fill in values added after the config was cached
+      merge: (persisted, current) => {
+        const state = persisted as Partial<ConfigState> | undefined;
+        const parsed = kioskConfigSchema.safeParse(state?.config ?? {});
+
+        return {
+          ...current,
+          config: parsed.success ? parsed.data : DEFAULT_KIOSK_CONFIG,
+          fetchedAt: state?.fetchedAt ?? null,
+        };
+      },
+    }
+  )
+);
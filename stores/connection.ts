@@ -0,0 +1,21 @@
+import { create } from "zustand";
+
+export type WebSocketStatus =
+  "CONNECTING" | "CONNECTED" | "DISCONNECTED" | "FAILED";
+
+interface ConnectionState {
+  wsStatus: WebSocketStatus;
+  wsStatusChangedAt: number | null;
+
+  setWsStatus: (status: WebSocketStatus) => void;
+}
+
+export const useConnectionStore = create<ConnectionState>()((set, get) => ({
+  wsStatus: "DISCONNECTED",
+  wsStatusChangedAt: null,
+
+  setWsStatus: (status) => {
+    if (get().wsStatus === status) return;
+    set({ wsStatus: status, wsStatusChangedAt: Date.now() });
+  },
+}));
@@ -0,0 +1,58 @@
+import { create } from "zustand";
+import { persist, createJSONStorage } from "zustand/middleware";
+import { API_URL } from "../constants/api";
+import { secureStorage } from "../libs/secure-storage";
+
+export interface KioskEnvironment {
+  apiUrl: string | null;
+  wsUrl: string | null;
+  boothName: string | null;
+}
+
+interface EnvironmentState {
+  environment: KioskEnvironment | null;
+  hydrated: boolean;
+  setEnvironment: (environment: KioskEnvironment | null) => void;
+  resetEnvironment: () => void;
+}
+
+export const useEnvironmentStore = create<EnvironmentState>()(
+  persist(
+    (set) => ({
+      environment: null,
+      hydrated: false,
+
+      setEnvironment: (environment) => {
+        set({ environment });
+      },
+
+      resetEnvironment: () => {
+        set({ environment: null });
+      },
+    }),
+    {
+      name: "kiosk-environment",
+      storage: createJSONStorage(() => secureStorage),
+      partialize: (state) => ({ environment: state.environment }),
+      onRehydrateStorage: () => () => {
+        useEnvironmentStore.setState({ hydrated: true });
+      },
+    }
+  )
+);
+
+export const toWebSocketUrl = (url: string) =>
+  url.replace(/^http(s?):\/\//, (_, s) => (s ? "wss://" : "ws://"));
+
+export function getApiUrl(): string {
+  return useEnvironmentStore.getState().environment?.apiUrl ?? API_URL;
+}
+
+export function getWsUrl(): string {
+  const { environment } = useEnvironmentStore.getState();
+  return environment?.wsUrl ?? toWebSocketUrl(getApiUrl());
+}
+
+export function isCustomApiUrl(apiUrl: string | null | undefined): boolean {
+  return !!apiUrl && apiUrl !== API_URL;
+}
@@ -0,0 +1,50 @@
+import { create } from "zustand";
+import { persist, createJSONStorage } from "zustand/middleware";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+interface LockState {
+  locked: boolean;
+  reason: string | null;
+  lockedAt: string | null;
+  hydrated: boolean;
+  lock: (reason?: string | null) => void;
+  unlock: () => void;
+}
+
+export const useLockStore = create<LockState>()(
+  persist(
+    (set) => ({
+      locked: false,
+      reason: null,
+      lockedAt: null,
+      hydrated: false,
+
+      lock: (reason = null) => {
+        set({ locked: true, reason, lockedAt: new Date().toISOString() });
+      },
+
+      unlock: () => {
+        set({ locked: false, reason: null, lockedAt: null });
+      },
+    }),
+    {
+      name: "kiosk-lock",
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({
+        locked: state.locked,
+        reason: state.reason,
+        lockedAt: state.lockedAt,
+      }),
+      merge: (persisted, current) => ({
+        ...current,
+        locked: false,
+        reason: null,
+        lockedAt: null,
+        ...(persisted as Partial<LockState>),
+      }),
+      onRehydrateStorage: () => () => {
+        useLockStore.setState({ hydrated: true });
+      },
+    }
+  )
+);
@@ -0,0 +1,3 @@
+import { createAttemptStore } from "./attempts";
+
+export const useLoginAttemptStore = createAttemptStore("login-attempts");
@@ -0,0 +1,81 @@
+import { create } from "zustand";
+import { persist, createJSONStorage } from "zustand/middleware";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { OrderDetail } from "../libs/schemas";
+
+interface OrderHistoryState {
+  orders: OrderDetail[];
+  syncedAt: string | null;
+  recordOrder: (order: OrderDetail) => void;
+  mergeOrders: (orders: OrderDetail[]) => void;
+  updateOrderStatus: (orderId: number, status: string) => void;
+  getOrder: (orderId: number) => OrderDetail | undefined;
+  clearOrders: () => void;
+}
+
+const MAX_CACHED_ORDERS = 200;
+
+const sortOrders = (orders: OrderDetail[]) =>
+  orders
+    .sort(
+      (a, b) =>
+        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    )
+    .slice(0, MAX_CACHED_ORDERS);
+
+export const useOrderHistoryStore = create<OrderHistoryState>()(
+  persist(
+    (set, get) => ({
+      orders: [],
+      syncedAt: null,
+
+      recordOrder: (order) => {
+        set((state) => ({
+          orders: sortOrders([
+            order,
+            ...state.orders.filter((cached) => cached.id !== order.id),
+          ]),
+        }));
+      },
+
+      mergeOrders: (orders) => {
+        set((state) => {
+          const fetchedIds = new Set(orders.map((order) => order.id));
+          return {
+            orders: sortOrders([
+              ...orders,
+              ...state.orders.filter((cached) => !fetchedIds.has(cached.id)),
+            ]),
+            syncedAt: new Date().toISOString(),
+          };
+        });
+      },
+
+      updateOrderStatus: (orderId, status) => {
+        set((state) => ({
+          orders: state.orders.map((order) =>
+            order.id === orderId ? { ...order, status } : order
+          ),
+        }));
+      },
+
+      getOrder: (orderId) => {
+        return get().orders.find((order) => order.id === orderId);
+      },
+
+      clearOrders: () => {
+        set({ orders: [], syncedAt: null });
+      },
+    }),
+    {
+      name: "kiosk-order-history",
+      storage: createJSONStorage(() => AsyncStorage),
+      merge: (persisted, current) => ({
+        ...current,
+        orders: [],
+        syncedAt: null,
+        ...(persisted as Partial<OrderHistoryState>),
+      }),
+    }
+  )
+);
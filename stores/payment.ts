@@ -1,9 +1,9 @@
 import { create } from "zustand";
 import { persist, createJSONStorage } from "zustand/middleware";
 import AsyncStorage from "@react-native-async-storage/async-storage";
-
-type PaymentRequestStatus = "PENDING" | "COMPLETED" | "FAILED" | "EXPIRED";
-type PaymentRequestMethod = "QR_CODE" | "STUDENT_ID";
+import * as Crypto from "expo-crypto";
+import { PaymentRequestMethod, PaymentRequestStatus } from "../libs/schemas";
+import { DEFAULT_KIOSK_CONFIG, useConfigStore } from "./config";
 
 interface PaymentState {
   orderId: number | null;
@@ -14,6 +14,9 @@ interface PaymentState {
   timer: number;
   isActive: boolean;
   status: PaymentRequestStatus | null;
+  requestKey: string | null;
+  requestKeyMethod: PaymentRequestMethod | null;
+  requestKeyInput: string | null;
 
   createPayment: (orderId: number) => void;
   setPaymentRequest: (
@@ -23,6 +26,8 @@ interface PaymentState {
     requestMethod: PaymentRequestMethod,
     expiresAt: string
   ) => void;
+  getRequestKey: (method: PaymentRequestMethod, input?: string) => string;
+  clearRequestKey: () => void;
   setStatus: (status: PaymentRequestStatus) => void;
   decrementTimer: () => void;
   resetPayment: () => void;
@@ -30,30 +35,38 @@ interface PaymentState {
   cancelPayment: () => void;
 }
 
-const DEFAULT_TIMER = 900;
+const initialPaymentState = {
+  orderId: null,
+  requestId: null,
+  requestCode: null,
+  requestMethod: null,
+  expiresAt: null,
+  timer: DEFAULT_KIOSK_CONFIG.paymentTimeout,
+  isActive: false,
+  status: null,
+  requestKey: null,
+  requestKeyMethod: null,
+  requestKeyInput: null,
+};
 
 export const usePaymentStore = create<PaymentState>()(
   persist(
     (set, get) => ({
-      orderId: null,
-      requestId: null,
-      requestCode: null,
-      requestMethod: null,
-      expiresAt: null,
-      timer: DEFAULT_TIMER,
-      isActive: false,
-      status: null,
+      ...initialPaymentState,
 
       createPayment: (orderId) => {
         set({
           orderId,
-          timer: DEFAULT_TIMER,
+          timer: useConfigStore.getState().config.paymentTimeout,
           isActive: true,
           status: "PENDING",
           requestId: null,
           requestCode: null,
           requestMethod: null,
           expiresAt: null,
+          requestKey: null,
+          requestKeyMethod: null,
+          requestKeyInput: null,
         });
       },
 
@@ -88,6 +101,38 @@ export const usePaymentStore = create<PaymentState>()(
           expiresAt,
           isActive: status === "PENDING",
           timer: updatedTimer,
+          requestKey: null,
+          requestKeyMethod: null,
+          requestKeyInput: null,
+        });
+      },
+
+      // A different input such as a corrected student ID is a new request
+      getRequestKey: (method, input) => {
+        const { requestKey, requestKeyMethod, requestKeyInput } = get();
+        if (
+          requestKey &&
+          requestKeyMethod === method &&
+          requestKeyInput === (input ?? null)
+        ) {
+          return requestKey;
+        }
+
+        const nextKey = Crypto.randomUUID();
+        set({
+          requestKey: nextKey,
+          requestKeyMethod: method,
+          requestKeyInput: input ?? null,
+        });
+        return nextKey;
+      },
+
+      // A rejected request is final, so a corrected retry needs a new key
+      clearRequestKey: () => {
+        set({
+          requestKey: null,
+          requestKeyMethod: null,
+          requestKeyInput: null,
         });
       },
 
@@ -109,16 +154,7 @@ export const usePaymentStore = create<PaymentState>()(
       },
 
       resetPayment: () => {
-        set({
-          orderId: null,
-          requestId: null,
-          requestCode: null,
-          requestMethod: null,
-          expiresAt: null,
-          timer: DEFAULT_TIMER,
-          isActive: false,
-          status: null,
-        });
+        set(initialPaymentState);
       },
 
       resetPaymentRequest: () => {
@@ -154,6 +190,14 @@ export const usePaymentStore = create<PaymentState>()(
         timer: state.timer,
         isActive: state.isActive,
         status: state.status,
+        requestKey: state.requestKey,
+        requestKeyMethod: state.requestKeyMethod,
+        requestKeyInput: state.requestKeyInput,
+      }),
+      merge: (persisted, current) => ({
+        ...current,
+        ...initialPaymentState,
+        ...(persisted as Partial<PaymentState>),
       }),
       onRehydrateStorage: () => (state) => {
         if (!state) return;
@@ -0,0 +1,3 @@
+import { createAttemptStore } from "./attempts";
+
+export const usePinAttemptStore = createAttemptStore("staff-pin-attempts");
@@ -0,0 +1,121 @@
+import { create } from "zustand";
+import { persist, createJSONStorage } from "zustand/middleware";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Crypto from "expo-crypto";
+import {
+  Shift,
+  ShiftOrder,
+  ShiftReport,
+  buildShiftReport,
+} from "../libs/shift-report";
+
+interface ShiftState {
+  current: Shift | null;
+  reports: ShiftReport[];
+  openShift: () => void;
+  closeShift: () => ShiftReport | null;
+  recordCompletion: (order: Omit<ShiftOrder, "completedAt">) => void;
+  recordCancellation: (orderId: number, amount: number) => void;
+  recordExpiration: (orderId: number, amount: number) => void;
+}
+
+const MAX_SHIFT_REPORTS = 30;
+
+// An order is cancelled or expires at most once, however often it is reported
+const isUnpaidRecorded = (shift: Shift, orderId: number) =>
+  shift.cancellations.some((entry) => entry.orderId === orderId) ||
+  shift.expirations.some((entry) => entry.orderId === orderId);
+
+export const useShiftStore = create<ShiftState>()(
+  persist(
+    (set, get) => ({
+      current: null,
+      reports: [],
+
+      openShift: () => {
+        if (get().current) return;
+
+        set({
+          current: {
+            id: Crypto.randomUUID(),
+            openedAt: new Date().toISOString(),
+            orders: [],
+            cancellations: [],
+            expirations: [],
+          },
+        });
+      },
+
+      closeShift: () => {
+        const { current, reports } = get();
+        if (!current) return null;
+
+        const report = buildShiftReport(current, new Date().toISOString());
+        set({
+          current: null,
+          reports: [report, ...reports].slice(0, MAX_SHIFT_REPORTS),
+        });
+        return report;
+      },
+
+      recordCompletion: (order) => {
+        const { current } = get();
+        if (!current) return;
+        if (current.orders.some((cached) => cached.orderId === order.orderId)) {
+          return;
+        }
+
+        set({
+          current: {
+            ...current,
+            orders: [
+              ...current.orders,
+              { ...order, completedAt: new Date().toISOString() },
+            ],
+          },
+        });
+      },
+
+      recordCancellation: (orderId, amount) => {
+        const { current } = get();
+        if (!current || isUnpaidRecorded(current, orderId)) return;
+
+        set({
+          current: {
+            ...current,
+            cancellations: [
+              ...current.cancellations,
+              { orderId, amount, at: new Date().toISOString() },
+            ],
+          },
+        });
+      },
+
+      recordExpiration: (orderId, amount) => {
+        const { current } = get();
+        if (!current || isUnpaidRecorded(current, orderId)) return;
+
+        set({
+          current: {
+            ...current,
+            expirations: [
+              ...current.expirations,
+              { orderId, amount, at: new Date().toISOString() },
+            ],
+          },
+        });
+      },
+    }),
+    {
+      name: "kiosk-shift",
+      storage: createJSONStorage(() => AsyncStorage),
+      // Each booth profile keeps its own shift and closing reports
+      merge: (persisted, current) => ({
+        ...current,
+        current: null,
+        reports: [],
+        ...(persisted as Partial<ShiftState>),
+      }),
+    }
+  )
+);
@@ -0,0 +1,141 @@
+import { create } from "zustand";
+import { persist, createJSONStorage } from "zustand/middleware";
+import * as Crypto from "expo-crypto";
+import { secureStorage } from "../libs/secure-storage";
+import { usePinAttemptStore } from "./pin-attempts";
+
+interface StaffState {
+  pinHash: string | null;
+  active: boolean;
+  editingProducts: boolean;
+  setPin: (pin: string) => Promise<void>;
+  setPinHash: (pinHash: string | null) => void;
+  verifyPin: (pin: string) => Promise<boolean>;
+  touch: () => void;
+  editProducts: () => void;
+  exit: () => void;
+}
+
+const STAFF_SESSION_TIMEOUT = 5 * 60 * 1000;
+const PIN_SALT_BYTES = 16;
+
+let expiryTimer: ReturnType<typeof setTimeout> | null = null;
+
+const clearExpiryTimer = () => {
+  if (expiryTimer) {
+    clearTimeout(expiryTimer);
+    expiryTimer = null;
+  }
+};
+
+const scheduleExpiry = () => {
+  clearExpiryTimer();
+  expiryTimer = setTimeout(() => {
+    expiryTimer = null;
+    useStaffStore.getState().exit();
+  }, STAFF_SESSION_TIMEOUT);
+};
+
+export const STAFF_PIN_PATTERN = /^\d{4,8}$/;
+// Provisioned hashes must already be salted, stored as `salt$hash`
+export const STAFF_PIN_HASH_PATTERN = /^[a-f0-9]{32}\$[a-f0-9]{64}$/i;
+// Unsalted SHA-256 hashes kept by kiosks set up before salting
+const LEGACY_PIN_HASH_PATTERN = /^[a-f0-9]{64}$/i;
+
+const sha256 = (value: string) =>
+  Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, value);
+
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+/**
+ * Hashes a PIN with a random per-device salt, stored as `salt$hash`. The salt
+ * only stops precomputed lookups: a 4-8 digit PIN is still brute-forced
+ * offline in moments, so the hash relies on secure storage and the attempt
+ * lockout to stay safe.
+ */
+export async function hashStaffPin(pin: string): Promise<string> {
+  const salt = toHex(Crypto.getRandomBytes(PIN_SALT_BYTES));
+  return `${salt}$${await sha256(`${salt}:${pin}`)}`;
+}
+
+const matchesPinHash = async (pin: string, pinHash: string) => {
+  if (STAFF_PIN_HASH_PATTERN.test(pinHash)) {
+    const [salt, hash] = pinHash.split("$");
+    return (await sha256(`${salt}:${pin}`)) === hash;
+  }
+  if (LEGACY_PIN_HASH_PATTERN.test(pinHash)) {
+    return (await sha256(pin)) === pinHash;
+  }
+  return false;
+};
+
+export const useStaffStore = create<StaffState>()(
+  persist(
+    (set, get) => ({
+      pinHash: null,
+      active: false,
+      editingProducts: false,
+
+      setPin: async (pin) => {
+        set({ pinHash: await hashStaffPin(pin) });
+      },
+
+      setPinHash: (pinHash) => {
+        clearExpiryTimer();
+        set({
+          pinHash: pinHash?.toLowerCase() ?? null,
+          active: false,
+          editingProducts: false,
+        });
+      },
+
+      verifyPin: async (pin) => {
+        const { pinHash } = get();
+        const attempts = usePinAttemptStore.getState();
+        if (!pinHash || attempts.getRemainingTime() > 0) return false;
+
+        if (!(await matchesPinHash(pin, pinHash))) {
+          attempts.recordFailure();
+          return false;
+        }
+
+        attempts.recordSuccess();
+        set({
+          // Replace a legacy unsalted hash with a salted one on first use
+          pinHash: STAFF_PIN_HASH_PATTERN.test(pinHash)
+            ? pinHash
+            : await hashStaffPin(pin),
+          active: true,
+          editingProducts: false,
+        });
+        scheduleExpiry();
+        return true;
+      },
+
+      touch: () => {
+        if (get().active) {
+          scheduleExpiry();
+        }
+      },
+
+      // Keeps staff mode on while the operator edits products on the grid
+      editProducts: () => {
+        if (get().active) {
+          set({ editingProducts: true });
+          scheduleExpiry();
+        }
+      },
+
+      exit: () => {
+        clearExpiryTimer();
+        set({ active: false, editingProducts: false });
+      },
+    }),
+    {
+      name: "kiosk-staff",
+      storage: createJSONStorage(() => secureStorage),
+      partialize: (state) => ({ pinHash: state.pinHash }),
+    }
+  )
+);
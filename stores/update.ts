@@ -0,0 +1,62 @@
+import { create } from "zustand";
+
+export type UpdateStatus =
+  | "DISABLED"
+  | "IDLE"
+  | "CHECKING"
+  | "DOWNLOADING"
+  | "UP_TO_DATE"
+  | "READY"
+  | "ERROR";
+
+interface UpdateState {
+  status: UpdateStatus;
+  checkedAt: number | null;
+  pendingUpdateId: string | null;
+  pendingCreatedAt: string | null;
+  error: string | null;
+
+  setChecking: () => void;
+  setDownloading: () => void;
+  setUpToDate: () => void;
+  setReady: (updateId: string | null, createdAt: string | null) => void;
+  setError: (message: string) => void;
+  setDisabled: () => void;
+}
+
+export const useUpdateStore = create<UpdateState>()((set) => ({
+  status: "IDLE",
+  checkedAt: null,
+  pendingUpdateId: null,
+  pendingCreatedAt: null,
+  error: null,
+
+  setChecking: () => {
+    set({ status: "CHECKING", error: null });
+  },
+
+  setDownloading: () => {
+    set({ status: "DOWNLOADING" });
+  },
+
+  setUpToDate: () => {
+    set({ status: "UP_TO_DATE", checkedAt: Date.now() });
+  },
+
+  setReady: (updateId, createdAt) => {
+    set({
+      status: "READY",
+      checkedAt: Date.now(),
+      pendingUpdateId: updateId,
+      pendingCreatedAt: createdAt,
+    });
+  },
+
+  setError: (message) => {
+    set({ status: "ERROR", checkedAt: Date.now(), error: message });
+  },
+
+  setDisabled: () => {
+    set({ status: "DISABLED" });
+  },
+}));